@@ -0,0 +1,57 @@
+import { Command } from 'commander';
+import { loadConfig, Config, ConfigOptions } from '../utils/config';
+import { exitWithMessage, writeResult } from '../utils/output';
+
+export function createConfigCommand(): Command {
+  const config = new Command('config')
+    .description('Inspect the resolved CLI configuration');
+
+  config
+    .command('show')
+    .description('Show effective settings and where each one came from')
+    .addHelpText('after', `
+💡 Precedence (highest first):
+   flags (--json, --profile, --config) > environment (STASHED_API, STASHER_PROFILE)
+   > .env in the current directory > config file profile > built-in defaults
+    `)
+    .action((_options, command: Command) => runConfigShow(command.optsWithGlobals()));
+
+  return config;
+}
+
+export async function runConfigShow(options: ConfigOptions = {}): Promise<void> {
+  let config: Config;
+  try {
+    config = loadConfig(options);
+  } catch (error: any) {
+    exitWithMessage(error.message, 'invalid_input');
+  }
+
+  const { sources } = config;
+  const rows: Array<[string, string, string]> = [
+    ['profile', config.profile, sources.profile],
+    ['api', config.apiBaseUrl, sources.apiBaseUrl],
+    ['ttl', config.defaultTtl ?? '(server default)', sources.defaultTtl],
+    ['retry', `${config.retry.maxRetries} retries, ${config.retry.baseDelay}ms base delay`, sources.retry],
+    ['output', config.output, sources.output],
+    ['argvSecrets', config.argvSecrets, sources.argvSecrets]
+  ];
+  const nameWidth = Math.max(...rows.map(([name]) => name.length));
+  const valueWidth = Math.max(...rows.map(([, value]) => value.length));
+  const text = [
+    `Config file: ${config.configPath}`,
+    ...rows.map(([name, value, source]) => `${name.padEnd(nameWidth)}  ${value.padEnd(valueWidth)}  (${source})`)
+  ].join('\n');
+
+  writeResult({
+    configPath: config.configPath,
+    profile: config.profile,
+    settings: {
+      api: { value: config.apiBaseUrl, source: sources.apiBaseUrl },
+      ttl: { value: config.defaultTtl ?? null, source: sources.defaultTtl },
+      retry: { value: config.retry, source: sources.retry },
+      output: { value: config.output, source: sources.output },
+      argvSecrets: { value: config.argvSecrets, source: sources.argvSecrets }
+    }
+  }, text);
+}
@@ -1,99 +1,472 @@
-import { Command } from 'commander';
-import { loadEnvConfig } from '../utils/config';
-import { decodeStashToken, decrypt, parsePayload, zeroBuffer } from '../utils/crypto';
-import { extractUUID, validateUUID } from '../utils/validation';
+import { Command, Option } from 'commander';
+import { ChildProcess } from 'child_process';
+import { constants as fsConstants, promises as fs } from 'fs';
+import { isUtf8 } from 'buffer';
+import { dirname } from 'path';
+import { loadConfig, parseDotEnv, ConfigOptions } from '../utils/config';
+import { CliError, exitWithError, exitWithMessage, isJsonOutput, writeResult } from '../utils/output';
+import { fetchStash } from '../utils/api';
+import { reassembleParts } from '../utils/chunking';
+import {
+  combineShareTokens,
+  decodeStashToken,
+  isShareToken,
+  decryptToBytes,
+  derivePassphraseKey,
+  deriveRecipientKey,
+  parsePayload,
+  zeroBuffer,
+  PayloadStructure
+} from '../utils/crypto';
+import { decodeEnvelope, EnvelopeMetadata } from '../utils/envelope';
+import {
+  decodeEnvBundle,
+  isEnvBundle,
+  mergeDotEnv,
+  renderEnvBundle,
+  validateK8sKey,
+  validateK8sName,
+  validateK8sNamespace,
+  EnvFormat,
+  EnvValue
+} from '../utils/env-bundle';
+import { checkOutputPath, deliverSecret, writeSecretFile } from '../utils/deliver';
+import { exitWithChild, findExecutable, spawnWithSecret } from '../utils/exec';
+import { readFromStdin, readHiddenLine } from '../utils/input';
+import { findIdentity, loadKeyring } from '../utils/keyring';
+import { PASSPHRASE_ATTEMPTS, MAX_TOKEN_INPUT_SIZE, ENV_FORMATS } from '../utils/constants';
+import { normalizeStashInput, validateAndParseStashFormat, validateEnvName } from '../utils/validation';
 
 /**
- * Exit codes for CI/script automation:
- * 0 = success
- * 1 = general error
- * 2 = invalid input format 
- * 3 = stash not found
- * 4 = stash expired or already consumed
- * 5 = network/timeout error
- * 6 = decryption/authentication failure
+ * Prompt for the stash passphrase and decrypt, allowing a few attempts
+ * The stash is already consumed server-side, so a typo must not lose the secret
+ * NOTE: Caller must zero the returned buffer
  */
-function exitWithMessage(msg: string, exitCode: number = 1): never {
-  console.error(msg);
-  process.exit(exitCode);
+async function decryptWithPassphrase(payload: PayloadStructure, key: Buffer, stashId: string, recipientKey?: Buffer): Promise<Buffer> {
+  for (let attempt = 1; ; attempt++) {
+    let passphrase: Buffer | undefined;
+    let passphraseKey: Buffer | undefined;
+    try {
+      passphrase = await readHiddenLine('Passphrase: ');
+      passphraseKey = await derivePassphraseKey(passphrase, payload.kdf!);
+      return decryptToBytes(payload, key, { stashId, passphraseKey, recipientKey });
+    } catch (error: any) {
+      if (!passphrase) {
+        throw new CliError(`Failed to read passphrase: ${error.message}`, 'decryption_failed');
+      }
+      if (attempt >= PASSPHRASE_ATTEMPTS) {
+        throw new CliError('Decryption failed: incorrect passphrase or tampered stash.', 'decryption_failed');
+      }
+      console.error('Incorrect passphrase, try again.');
+    } finally {
+      zeroBuffer(passphrase);
+      zeroBuffer(passphraseKey);
+    }
+  }
+}
+
+/**
+ * Recompute the recipient key for a stash encrypted to one of our identities
+ * NOTE: Caller must zero the returned buffer
+ */
+async function unwrapRecipientKey(payload: PayloadStructure): Promise<Buffer> {
+  const identity = findIdentity(await loadKeyring(), payload.recipient!.kid);
+  if (!identity) {
+    throw new CliError(
+      `This stash is encrypted to key ${payload.recipient!.kid}, which has no private key in your keyring.`,
+      'decryption_failed'
+    );
+  }
+  return deriveRecipientKey(payload.recipient!, identity);
+}
+
+/**
+ * Read the server's remaining-read count from a destash response, if present
+ * Not part of the authenticated envelope; informational only
+ */
+function readRemainingReads(body: string): number | null {
+  try {
+    const { remainingReads } = JSON.parse(body);
+    return Number.isInteger(remainingReads) && remainingReads >= 0 ? remainingReads : null;
+  } catch {
+    return null;
+  }
+}
+
+export interface DestashOptions extends ConfigOptions {
+  output?: string;
+  force?: boolean;
+  envVar?: string;
+  stdin?: boolean;
+  format?: EnvFormat;
+  mergeInto?: string;
+  key?: string;
+  name?: string;
+  namespace?: string;
 }
 
-export async function runDestash(): Promise<void> {
-  const program = new Command();
+// Formats that need every value named, so a single-value stash cannot fall back to printing as is
+const NAMED_FORMATS: EnvFormat[] = ['k8s-secret', 'docker-env'];
 
-  program
-    .name('stasher')
+export function createDestashCommand(): Command {
+  return new Command('destash')
     .description('Retrieve and decrypt a one-time secret from stasher.dev')
-    .usage('<uuid:base64key>')
-    .argument('<token>', 'The stash token in the format uuid:base64key')
-    .version('1.0.0')
+    .usage('<uuid:base64key | link | share...> [-- command...]')
+    .argument('[tokens...]', 'The stash token (uuid:base64key), a share link, or share tokens (default: read from stdin)')
+    .option('-o, --output <path>', 'Write the secret byte for byte to a new file (mode 0600) instead of stdout')
+    .option('--force', 'With --output, replace an existing file')
+    .addOption(new Option('--env-var <name>', 'Run the command after -- with the secret in this environment variable').conflicts('output'))
+    .addOption(new Option('--stdin', 'Run the command after -- with the secret on its stdin').conflicts('output'))
+    .addOption(new Option('--format <format>', 'How to print an env bundle (default: dotenv)').choices(ENV_FORMATS))
+    .addOption(
+      new Option('--merge-into <path>', 'Update a dotenv file with an env bundle, leaving other lines alone')
+        .conflicts(['output', 'envVar', 'stdin', 'format'])
+    )
+    .option('--key <name>', 'With --format or --merge-into: name a single-value stash, or pick one variable of a bundle')
+    .option('--name <name>', 'With --format k8s-secret: metadata.name of the Secret')
+    .option('--namespace <namespace>', 'With --format k8s-secret: metadata.namespace of the Secret')
     .addHelpText('after', `
 💡 Examples:
    destash "a1b2c3d4-e5f6-7890-abcd-ef1234567890:base64key..."
+   stasher destash "uuid:base64key"
+   destash "https://api.stasher.dev/s/a1b2c3d4-e5f6-7890-abcd-ef1234567890#base64key..."
    npx destash "uuid:base64key"
+   destash "share:uuid:3:1:..." "share:uuid:3:4:..." "share:uuid:3:5:..."
+   cat shares.txt | destash
+   destash --output keystore.p12 "uuid:base64key"
+   destash "uuid:base64key" --env-var DB_PASSWORD -- ./migrate.sh
+   destash "uuid:base64key" --stdin -- gpg --import
+   destash --format shell-export "uuid:base64key"     (env bundles from enstash --env-file)
+   destash --merge-into .env "uuid:base64key"
+   destash --format k8s-secret --name app --namespace prod "uuid:base64key" | kubectl apply -f -
+   destash --format docker-env --key DB_PASSWORD "uuid:base64key"     (single-value stash)
     `)
-    .parse();
+    .action((operands: string[], _options, command: Command) => {
+      const { tokens, childCommand } = splitChildCommand(operands);
+      return runDestash(tokens, command.optsWithGlobals(), childCommand);
+    });
+}
 
-  const rawInput = program.args[0];
+/**
+ * Separate stash tokens from the command after `--`
+ * Commander passes both as operands, so count the command's words in the raw argv
+ */
+function splitChildCommand(operands: string[]): { tokens: string[]; childCommand: string[] } {
+  const dash = process.argv.indexOf('--');
+  const childCommand = dash === -1 ? [] : process.argv.slice(dash + 1);
+  return { tokens: operands.slice(0, operands.length - childCommand.length), childCommand };
+}
 
-  if (!rawInput) {
-    exitWithMessage('No stash token provided. Expected format: uuid:base64key', 2); // Invalid input
+/**
+ * Check --env-var / --stdin and the command before the fetch burns the stash
+ */
+function checkChildCommand(childCommand: string[], options: DestashOptions): void {
+  const delivers = options.envVar !== undefined || Boolean(options.stdin);
+  if (delivers && !childCommand.length) {
+    exitWithMessage('Give the command to run after --, e.g. destash TOKEN --env-var DB_PASSWORD -- ./migrate.sh', 'invalid_input');
+  }
+  if (!childCommand.length) {
+    return;
+  }
+  if (!delivers) {
+    exitWithMessage('A command after -- needs --env-var <name> or --stdin to receive the secret', 'invalid_input');
+  }
+  if (options.envVar !== undefined && !validateEnvName(options.envVar)) {
+    exitWithMessage(`Invalid --env-var "${options.envVar}": expected an environment variable name`, 'invalid_input');
+  }
+  if (!findExecutable(childCommand[0])) {
+    exitWithMessage(`Command not found: ${childCommand[0]}. The stash was not touched.`, 'invalid_input');
   }
+}
 
-  const uuid = extractUUID(rawInput);
-  if (!uuid || !validateUUID(uuid)) {
-    exitWithMessage('Invalid stash token format. Expected: uuid:base64key', 2); // Invalid input
+/**
+ * Check --format, --key and the Secret name before the fetch burns the stash
+ */
+function checkFormatOptions(options: DestashOptions): void {
+  const k8s = options.format === 'k8s-secret';
+  if (!k8s && (options.name !== undefined || options.namespace !== undefined)) {
+    exitWithMessage('--name and --namespace only apply with --format k8s-secret', 'invalid_input');
+  }
+  if (k8s && options.name === undefined) {
+    exitWithMessage('--format k8s-secret needs --name <name> for the Secret', 'invalid_input');
+  }
+  if (options.name !== undefined && !validateK8sName(options.name)) {
+    exitWithMessage(`Invalid --name "${options.name}": expected lowercase letters, digits, '-' and '.'`, 'invalid_input');
+  }
+  if (options.namespace !== undefined && !validateK8sNamespace(options.namespace)) {
+    exitWithMessage(`Invalid --namespace "${options.namespace}": expected lowercase letters, digits and '-'`, 'invalid_input');
+  }
+  if (options.key === undefined) {
+    return;
   }
+  if (options.format === undefined && options.mergeInto === undefined) {
+    exitWithMessage('--key only applies with --format or --merge-into', 'invalid_input');
+  }
+  if (k8s ? !validateK8sKey(options.key) : !validateEnvName(options.key)) {
+    const expected = k8s ? 'letters, digits, \'-\', \'_\' and \'.\'' : 'an environment variable name';
+    exitWithMessage(`Invalid --key "${options.key}": expected ${expected}`, 'invalid_input');
+  }
+}
 
-  try {
-    const config = loadEnvConfig();
-
-    // Use fetch with retry for network resilience
-    const { fetchWithRetry } = await import('../utils/fetch-retry');
-    
-    // Time-bound the request to prevent hanging
-    const ac = new AbortController();
-    const timeout = setTimeout(() => ac.abort(), 10_000); // 10s
-    const response = await fetchWithRetry(`${config.apiBaseUrl}/destash/${uuid}`, {
-      method: 'GET',
-      signal: ac.signal,
-    });
-    clearTimeout(timeout);
+/**
+ * The variables to render or merge, if the stash can be read as a set of them
+ * A single value gets its name from --key (or, for a Secret, from its file name);
+ * it stays a view into the decrypted bytes, so zeroing those zeroes it
+ */
+function collectVars(data: Buffer, meta: EnvelopeMetadata | undefined, options: DestashOptions): Map<string, EnvValue> | undefined {
+  if (isEnvBundle(meta)) {
+    const vars = decodeEnvBundle(data);
+    if (options.key === undefined) {
+      return vars;
+    }
+    const value = vars.get(options.key);
+    if (value === undefined) {
+      throw new CliError(`This env bundle has no variable ${options.key}. The stash has already been read.`, 'invalid_input');
+    }
+    return new Map([[options.key, value]]);
+  }
 
-    if (response.status === 404) {
-      exitWithMessage('Stash not found or already retrieved.', 3); // Not found
+  let name = options.key;
+  if (name === undefined && options.format === 'k8s-secret' && meta?.filename && validateK8sKey(meta.filename)) {
+    name = meta.filename;
+  }
+  if (name === undefined) {
+    if (options.format !== undefined && NAMED_FORMATS.includes(options.format)) {
+      throw new CliError(
+        `This stash holds a single value; give it a name with --key to print it as ${options.format}. The stash has already been read.`,
+        'invalid_input'
+      );
     }
+    return undefined;
+  }
+  return new Map([[name, isUtf8(data) ? data.toString('utf8') : data]]);
+}
 
-    if (response.status === 410) {
-      const { error } = await response.json().catch(() => ({}));
-      const msg = (error === 'Expired') ? 'This stash has expired.' : 'This stash has already been consumed.';
-      exitWithMessage(msg, 4); // Expired/consumed
+/**
+ * Start the command with the secret in its environment and/or on its stdin
+ * Stdin gets what destash would have printed; the variable gets the secret alone
+ */
+async function startChildCommand(
+  childCommand: string[],
+  options: DestashOptions,
+  data: Buffer,
+  trailingNewline: boolean
+): Promise<ChildProcess> {
+  let env: Record<string, string> | undefined;
+  if (options.envVar !== undefined) {
+    if (!isUtf8(data) || data.includes(0)) {
+      throw new CliError('This secret is binary and cannot go in an environment variable (use --stdin). The stash has already been read.');
     }
+    // Unavoidably a string copy: the environment block is handed to the OS as text
+    env = { [options.envVar]: data.toString('utf8') };
+  }
+  const input = options.stdin ? (trailingNewline ? [data, Buffer.from('\n')] : [data]) : undefined;
+  try {
+    return await spawnWithSecret(childCommand, { env, input });
+  } catch (error: any) {
+    throw new CliError(`Failed to start ${childCommand[0]}: ${error.message}. The stash has already been read.`);
+  }
+}
 
-    if (!response.ok) {
-      exitWithMessage(`Failed to fetch stash: HTTP ${response.status}`, 5); // Network error
+/**
+ * Make sure --merge-into parses and can be written before the fetch burns the stash
+ */
+async function checkMergeTarget(path: string): Promise<void> {
+  try {
+    parseDotEnv(await fs.readFile(path, 'utf8'));
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      exitWithMessage(`Cannot merge into ${path}: ${error.message}. The stash was not touched.`, 'invalid_input');
     }
+  }
+  try {
+    await fs.access(dirname(path), fsConstants.W_OK);
+  } catch {
+    exitWithMessage(`Cannot write to ${dirname(path)}. The stash was not touched.`, 'invalid_input');
+  }
+}
+
+/**
+ * Merge a bundle into a dotenv file, replacing it atomically and keeping its mode (0600 if new)
+ */
+async function mergeIntoFile(path: string, vars: Map<string, EnvValue>): Promise<{ updated: string[]; added: string[] }> {
+  let content = '';
+  let mode = 0o600;
+  try {
+    content = await fs.readFile(path, 'utf8');
+    mode = (await fs.stat(path)).mode & 0o777;
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') throw error;
+  }
+  const merged = mergeDotEnv(content, vars);
+  await writeSecretFile(path, Buffer.from(merged.content, 'utf8'), true, mode);
+  return { updated: merged.updated, added: merged.added };
+}
 
-    const encrypted = await response.json();
+/**
+ * Read whitespace-separated tokens from stdin when none were given as arguments
+ */
+async function readTokensFromStdin(): Promise<string[]> {
+  let input: Buffer | undefined;
+  try {
+    input = await readFromStdin(undefined, MAX_TOKEN_INPUT_SIZE);
+    return input.toString('utf8').split(/\s+/).filter(Boolean);
+  } catch (error: any) {
+    exitWithMessage(`No stash token provided (${error.message}). Expected format: uuid:base64key`, 'invalid_input');
+  } finally {
+    zeroBuffer(input);
+  }
+}
 
-    // Decode and decrypt with proper key cleanup
-    let key: Buffer | undefined;
+/**
+ * Turn one full token (or link), or enough share tokens, into the stash id and key
+ * Everything is checked before any network call: the fetch burns the stash
+ */
+function resolveStashKey(tokens: string[]): { uuid: string; key: Buffer } {
+  if (tokens.some(isShareToken)) {
     try {
-      ({ key } = decodeStashToken(rawInput));
-      const payload = encrypted; // encrypted is already the parsed payload object
-      const plaintext = decrypt(payload, key);
-      process.stdout.write(plaintext + '\n');
-    } catch (e) {
-      exitWithMessage('Failed to retrieve or decrypt secret.', 6); // Decrypt/auth failure
-    } finally {
-      zeroBuffer(key);
+      const { id, key } = combineShareTokens(tokens);
+      return { uuid: id, key };
+    } catch (e: any) {
+      exitWithMessage(`Cannot open stash from shares: ${e.message}. The stash was not touched.`, 'invalid_input');
     }
+  }
+  if (tokens.length !== 1) {
+    exitWithMessage('Expected exactly one stash token (or several share tokens).', 'invalid_input');
+  }
 
-  } catch (error: any) {
-    // Handle network/timeout errors
-    if (error?.name === 'AbortError') {
-      exitWithMessage('Request timed out after 10 seconds.', 5); // Network error
+  const [rawInput] = tokens;
+  const parsed = validateAndParseStashFormat(rawInput);
+  if (!parsed.success) {
+    exitWithMessage(`Invalid stash token: ${parsed.error}`, 'invalid_input');
+  }
+  try {
+    const { key } = decodeStashToken(normalizeStashInput(rawInput));
+    return { uuid: parsed.data.id, key };
+  } catch (e: any) {
+    exitWithMessage(`Invalid stash token: ${e.message}. The stash was not touched.`, 'invalid_input');
+  }
+}
+
+export async function runDestash(tokens: string[], options: DestashOptions = {}, childCommand: string[] = []): Promise<void> {
+  if (options.force && options.output === undefined) {
+    exitWithMessage('--force only applies with --output', 'invalid_input');
+  }
+  checkChildCommand(childCommand, options);
+  checkFormatOptions(options);
+  if (!tokens.length) {
+    tokens = await readTokensFromStdin();
+  }
+  const { uuid, key } = resolveStashKey(tokens);
+  if (options.output !== undefined) {
+    await checkOutputPath(options.output, options.force ?? false);
+  }
+  if (options.mergeInto !== undefined) {
+    await checkMergeTarget(options.mergeInto);
+  }
+
+  const config = loadConfig(options);
+
+  let body: string;
+  try {
+    body = await fetchStash(config, uuid);
+  } catch (error) {
+    zeroBuffer(key);
+    exitWithError(error, 'Failed to retrieve or decrypt secret.', 'network_error');
+  }
+
+  // Decrypt with proper key cleanup
+  let plaintextBytes: Buffer | undefined;
+  let recipientKey: Buffer | undefined;
+  let child: ChildProcess | undefined;
+  let rendered: Buffer | undefined;
+  try {
+    // Strict envelope validation; AAD ties the ciphertext to the uuid we asked for
+    const payload = parsePayload(body);
+    if (payload.type === 'part') {
+      throw new CliError('This token points at one part of a multi-part stash.', 'invalid_input');
     }
-    exitWithMessage('Failed to retrieve or decrypt secret.', 5); // Network error (general)
+
+    if (payload.recipient) {
+      recipientKey = await unwrapRecipientKey(payload);
+    }
+    plaintextBytes = payload.kdf
+      ? await decryptWithPassphrase(payload, key, uuid, recipientKey)
+      : decryptToBytes(payload, key, { stashId: uuid, recipientKey });
+
+    if (payload.type === 'manifest') {
+      const manifestBytes = plaintextBytes;
+      try {
+        plaintextBytes = await reassembleParts(config, uuid, manifestBytes);
+      } finally {
+        zeroBuffer(manifestBytes);
+      }
+    }
+
+    // Enveloped secrets carry encrypted metadata ahead of the exact bytes
+    let data = plaintextBytes;
+    let meta: EnvelopeMetadata | undefined;
+    if (payload.plaintext === 'envelope') {
+      ({ meta, data } = decodeEnvelope(plaintextBytes));
+    }
+    const remainingReads = readRemainingReads(body);
+    const described = meta ? { filename: meta.filename ?? null, contentType: meta.contentType ?? null } : {};
+
+    // Env bundles (and named single values) are merged into a file, returned as JSON,
+    // or rendered as text and delivered like any secret
+    const vars = collectVars(data, meta, options);
+    if (!vars && (options.format !== undefined || options.mergeInto !== undefined)) {
+      console.error('Warning: this stash is not an env bundle, so it is delivered as is.');
+    }
+    const bundleAsJson = vars !== undefined && isJsonOutput() && !childCommand.length && options.output === undefined &&
+      [...vars.values()].every((value) => typeof value === 'string');
+    if (vars && options.mergeInto === undefined && !bundleAsJson) {
+      const format = options.format ?? 'dotenv';
+      const k8s = options.name !== undefined ? { name: options.name, namespace: options.namespace } : undefined;
+      try {
+        rendered = Buffer.from(renderEnvBundle(vars, format, k8s), 'utf8');
+      } catch (error: any) {
+        throw new CliError(`Cannot print this stash as ${format}: ${error.message}. The stash has already been read.`, 'invalid_input');
+      }
+      data = rendered;
+      // The rendering is not the original file, so there is no name to save it under
+      meta = { ...meta, filename: undefined, trailingNewline: false };
+    }
+
+    if (vars && options.mergeInto !== undefined) {
+      const path = options.mergeInto;
+      let result: { updated: string[]; added: string[] };
+      try {
+        result = await mergeIntoFile(path, vars);
+      } catch (error: any) {
+        throw new CliError(`Failed to update ${path}: ${error.message}. The stash has already been read.`);
+      }
+      writeResult(
+        { status: 'merged', id: uuid, path, ...result, remainingReads },
+        `Updated ${result.updated.length} and added ${result.added.length} variable(s) in ${path}`
+      );
+    } else if (vars && bundleAsJson) {
+      writeResult({ status: 'retrieved', id: uuid, vars: Object.fromEntries(vars), ...described, remainingReads }, '');
+    } else if (childCommand.length) {
+      // Never our stdout: the secret only reaches the child
+      child = await startChildCommand(childCommand, options, data, meta ? meta.trailingNewline ?? false : true);
+    } else {
+      await deliverSecret(uuid, data, meta, options, { remainingReads });
+    }
+    if (!isJsonOutput() && remainingReads !== null && remainingReads > 0) {
+      console.error(`${remainingReads} read${remainingReads === 1 ? '' : 's'} remaining before this stash is burned.`);
+    }
+  } catch (error) {
+    exitWithError(error, 'Failed to retrieve or decrypt secret.', 'decryption_failed');
+  } finally {
+    zeroBuffer(key);
+    zeroBuffer(recipientKey);
+    zeroBuffer(plaintextBytes);
+    zeroBuffer(rendered);
+  }
+
+  // Buffers are zeroed by now; the child runs on with its own copy
+  if (child) {
+    await exitWithChild(child);
   }
 }
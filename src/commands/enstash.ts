@@ -1,120 +1,898 @@
-import { Command } from 'commander';
-import { loadEnvConfig } from '../utils/config';
+import { Command, Option } from 'commander';
+import { randomBytes, randomUUID } from 'crypto';
+import { isUtf8 } from 'buffer';
+import { basename } from 'path';
+import { loadConfig, ArgvSecretPolicy, Config, ConfigOptions } from '../utils/config';
+import { CliError, exitWithError, exitWithMessage, isJsonOutput, writeResult } from '../utils/output';
+import { checkPayloadSize, createStash, deleteStash, fetchStatus, CreatedStash, StashState, StashStatus } from '../utils/api';
+import { computeBackoff, delay } from '../utils/fetch-retry';
+import { deleteParts, digest, encodeManifest, splitIntoChunks, ManifestPart, PartCredential } from '../utils/chunking';
 import {
   encrypt,
+  buildAad,
   createPayload,
-  encodePayload,
+  createPayloadHeader,
+  createKdfParams,
+  createRecipientKey,
+  deriveReplyKey,
+  derivePassphraseKey,
+  encodeKey,
+  CipherAlgorithm,
+  KdfParams,
+  PayloadMetadata,
+  PayloadStructure,
+  PlaintextFormat,
+  RecipientParams,
+  PayloadType,
   formatStashToken,
+  formatStashLink,
+  formatRevokeToken,
+  formatShareTokens,
+  deriveRevokeCredential,
   zeroBuffer
 } from '../utils/crypto';
 import {
+  parseDuration,
+  parseRequestCode,
+  validateEnvName,
+  validateLabel,
+  validateTtl,
+  validateMaxReads,
   validateSecretContent,
   validateSecretLength,
   validateSecretBufferContent,
   validateSecretBufferLength
 } from '../utils/validation';
-import { readFromStdin } from '../utils/input';
-import { MAX_SECRET_LENGTH, MAX_PAYLOAD_SIZE, KEY_LENGTH } from '../utils/constants';
+import { readFromFile, readFromStdin, readHiddenLine, readMaskedInput } from '../utils/input';
+import { findKey, loadKeyring } from '../utils/keyring';
+import { encodeEnvBundle, selectFromDotEnv } from '../utils/env-bundle';
+import { encodeEnvelope, guessContentType, validateContentType, validateFilename, EnvelopeMetadata } from '../utils/envelope';
+import { appendToLedger, noteGoneInLedger, LedgerEntry } from '../utils/ledger';
+import {
+  MAX_SECRET_LENGTH,
+  MAX_CHUNKED_SECRET_LENGTH,
+  CHUNK_SIZE,
+  KEY_LENGTH,
+  CIPHER_ALGORITHMS,
+  DEFAULT_CIPHER,
+  MIN_TTL_SECONDS,
+  MAX_TTL_SECONDS,
+  MAX_READS_LIMIT,
+  MAX_SHARES,
+  MAX_RECIPIENTS,
+  ENV_BUNDLE_CONTENT_TYPE,
+  WAIT_POLL_BASE_MS,
+  WAIT_POLL_MAX_MS
+} from '../utils/constants';
 
-function exitWithMessage(msg: string): never {
-  console.error(msg);
-  process.exit(1);
+/**
+ * Prompt twice for a new passphrase on the terminal
+ * Returns Buffer; caller must zero it with zeroBuffer()
+ */
+async function readNewPassphrase(): Promise<Buffer> {
+  const passphrase = await readHiddenLine('Passphrase: ');
+  let confirmation: Buffer | undefined;
+  try {
+    if (!passphrase.length) {
+      throw new Error('Passphrase cannot be empty');
+    }
+    confirmation = await readHiddenLine('Confirm passphrase: ');
+    if (!passphrase.equals(confirmation)) {
+      throw new Error('Passphrases do not match');
+    }
+    return passphrase;
+  } catch (error) {
+    zeroBuffer(passphrase);
+    throw error;
+  } finally {
+    zeroBuffer(confirmation);
+  }
 }
 
-export async function runEnstash(): Promise<void> {
-  const program = new Command();
+/**
+ * Prompt for the secret on the terminal, masked, so it never lands in argv or shell history
+ * A single line is typed twice to catch typos; multi-line input is usually pasted, so it is not
+ * Returns Buffer; caller must zero it with zeroBuffer()
+ */
+async function readSecretFromPrompt(multiline: boolean): Promise<Buffer> {
+  if (multiline) {
+    process.stderr.write('Enter or paste the secret, then press Ctrl-D to finish.\n');
+    return readMaskedInput('', MAX_CHUNKED_SECRET_LENGTH, true);
+  }
+  const secret = await readMaskedInput('Secret: ', MAX_CHUNKED_SECRET_LENGTH);
+  let confirmation: Buffer | undefined;
+  try {
+    confirmation = await readMaskedInput('Confirm secret: ', MAX_CHUNKED_SECRET_LENGTH);
+    if (!secret.equals(confirmation)) {
+      throw new Error('Secrets do not match');
+    }
+    return secret;
+  } catch (error) {
+    zeroBuffer(secret);
+    throw error;
+  } finally {
+    zeroBuffer(confirmation);
+  }
+}
 
-  program
-    .name('stasher')
-    .description('Encrypt and upload a one-time secret to stashed.dev')
-    .usage('[secret...]')
-    .argument('[secret...]', 'Secret string (defaults to reading from stdin if no arguments)')
-    .version('1.0.0')
-    .addHelpText('after', `
-  Examples:
-  echo "secret" | enstash
-  enstash "API_KEY=abc123"
-  enstash "my secret"
-    `)
-    .parse();
+/**
+ * Read the selected variables of a dotenv file into a bundle (see env-bundle.ts)
+ * Returns Buffer; caller must zero it with zeroBuffer()
+ */
+async function readEnvBundle(path: string, keyList?: string): Promise<Buffer> {
+  const keys = keyList?.split(',').map((key) => key.trim()).filter(Boolean);
+  const invalid = keys?.find((key) => !validateEnvName(key));
+  if (keys && (!keys.length || invalid !== undefined)) {
+    exitWithMessage(`Invalid --keys "${keyList}": expected comma-separated variable names, e.g. A,B,C`, 'invalid_input');
+  }
 
-  let secretBuffer: Buffer;
-  const secretArgs = program.args;
+  let content: Buffer | undefined;
+  try {
+    content = await readFromFile(path, MAX_CHUNKED_SECRET_LENGTH);
+    return encodeEnvBundle(selectFromDotEnv(content.toString('utf8'), keys));
+  } catch (error: any) {
+    exitWithMessage(`Cannot stash ${path}: ${error.message}`, 'invalid_input');
+  } finally {
+    zeroBuffer(content);
+  }
+}
+
+/**
+ * Read the secret from its one source: arguments, --file, --from-env, stdin or the prompt
+ * Arguments are subject to the argvSecrets policy, since they show up in shell history and `ps`
+ * Returns Buffer; caller must zero it with zeroBuffer()
+ */
+async function readSecret(secretArgs: string[], options: EnstashOptions, argvPolicy: ArgvSecretPolicy): Promise<Buffer> {
+  const sources = [secretArgs.length > 0, options.file !== undefined, options.fromEnv !== undefined, options.envFile !== undefined];
+  if (sources.filter(Boolean).length > 1) {
+    exitWithMessage('Give the secret one way only: as arguments, --file, --from-env or --env-file', 'invalid_input');
+  }
+  if (options.keys !== undefined && options.envFile === undefined) {
+    exitWithMessage('--keys only applies with --env-file', 'invalid_input');
+  }
+  if (options.multiline && (sources.some(Boolean) || !process.stdin.isTTY)) {
+    exitWithMessage('--multiline only applies to the interactive prompt (no secret argument or piped input)', 'invalid_input');
+  }
 
   if (secretArgs.length > 0) {
+    if (argvPolicy === 'refuse') {
+      exitWithMessage('Secrets as arguments are disabled by config (argvSecrets: refuse). Use the prompt, stdin, --file or --from-env.', 'invalid_input');
+    }
+    if (argvPolicy === 'warn') {
+      console.error('Warning: secrets given as arguments end up in shell history and process listings. Prefer the prompt, stdin, --file or --from-env.');
+    }
     // Convert command line args to buffer
     const secretString = secretArgs.join(' ');
     // Input validation for string input
     if (!validateSecretContent(secretString)) {
-      exitWithMessage('Secret cannot be empty or whitespace only');
+      exitWithMessage('Secret cannot be empty or whitespace only', 'invalid_input');
+    }
+    if (!validateSecretLength(secretString, MAX_CHUNKED_SECRET_LENGTH)) {
+      exitWithMessage(`Secret too long (max ${MAX_CHUNKED_SECRET_LENGTH} characters)`, 'invalid_input');
     }
-    if (!validateSecretLength(secretString, MAX_SECRET_LENGTH)) {
-      exitWithMessage(`Secret too long (max ${MAX_SECRET_LENGTH} characters)`);
+    return Buffer.from(secretString, 'utf8');
+  }
+
+  let secretBuffer: Buffer;
+  if (options.envFile !== undefined) {
+    secretBuffer = await readEnvBundle(options.envFile, options.keys);
+  } else if (options.fromEnv !== undefined) {
+    const name = options.fromEnv;
+    if (!validateEnvName(name)) {
+      exitWithMessage(`Invalid --from-env "${name}": expected an environment variable name`, 'invalid_input');
     }
-    secretBuffer = Buffer.from(secretString, 'utf8');
+    const value = process.env[name];
+    // Removed so nothing this process spawns inherits it
+    delete process.env[name];
+    if (value === undefined) {
+      exitWithMessage(`Environment variable ${name} is not set`, 'invalid_input');
+    }
+    secretBuffer = Buffer.from(value, 'utf8');
   } else {
+    // On a terminal, prompt rather than push people towards argv
+    const source = options.file !== undefined ? options.file : process.stdin.isTTY ? 'the prompt' : 'stdin';
     try {
-      secretBuffer = await readFromStdin();
+      if (options.file !== undefined) {
+        secretBuffer = await readFromFile(options.file, MAX_CHUNKED_SECRET_LENGTH);
+      } else if (process.stdin.isTTY) {
+        secretBuffer = await readSecretFromPrompt(options.multiline ?? false);
+      } else {
+        secretBuffer = await readFromStdin(undefined, MAX_CHUNKED_SECRET_LENGTH);
+      }
     } catch (error: any) {
-      exitWithMessage(`Failed to read from stdin: ${error.message}`);
+      exitWithMessage(`Failed to read from ${source}: ${error.message}`, 'invalid_input');
     }
-    
-    // Input validation for buffer input
-    if (!validateSecretBufferContent(secretBuffer)) {
-      exitWithMessage('Secret cannot be empty or whitespace only');
+  }
+
+  // Input validation for buffer input
+  if (!validateSecretBufferContent(secretBuffer)) {
+    exitWithMessage('Secret cannot be empty or whitespace only', 'invalid_input');
+  }
+  if (!validateSecretBufferLength(secretBuffer, MAX_CHUNKED_SECRET_LENGTH)) {
+    exitWithMessage(`Secret too long (max ${MAX_CHUNKED_SECRET_LENGTH} bytes)`, 'invalid_input');
+  }
+  return secretBuffer;
+}
+
+interface SealOptions {
+  alg: CipherAlgorithm;
+  key?: Buffer; // Fixed token key (replies); random otherwise
+  kdf?: KdfParams;
+  passphraseKey?: Buffer;
+  recipient?: RecipientParams;
+  recipientKey?: Buffer;
+  type?: PayloadType;
+  plaintext?: PlaintextFormat;
+}
+
+interface UploadedStash {
+  key: Buffer;
+  created: CreatedStash;
+  parts: PartCredential[]; // Empty unless the secret was chunked
+}
+
+interface SealedPayload {
+  key: Buffer;
+  payload: PayloadStructure;
+  revokeCredential: string;
+}
+
+/**
+ * Encrypt bytes bound to a stash id, ready for upload
+ * NOTE: Caller must zero the returned key
+ */
+function sealPayload(stashId: string, bytes: Uint8Array, meta: PayloadMetadata, seal: SealOptions): SealedPayload {
+  const header = createPayloadHeader(meta, {
+    alg: seal.alg,
+    kdf: seal.kdf,
+    recipient: seal.recipient,
+    type: seal.type,
+    plaintext: seal.plaintext
+  });
+  const encryptionResult = encrypt(bytes, {
+    algorithm: seal.alg,
+    key: seal.key,
+    aad: buildAad(stashId, header),
+    passphraseKey: seal.passphraseKey,
+    recipientKey: seal.recipientKey
+  });
+
+  if (encryptionResult.key.length !== KEY_LENGTH) {
+    zeroBuffer(encryptionResult.key);
+    throw new Error(`Encryption key must be ${KEY_LENGTH} bytes`);
+  }
+  return {
+    key: encryptionResult.key,
+    payload: createPayload(encryptionResult, header),
+    revokeCredential: deriveRevokeCredential(stashId, encryptionResult.key)
+  };
+}
+
+/**
+ * Upload a sealed payload, registering the hash of its revoke credential
+ * The key is zeroed if the upload fails
+ */
+async function uploadSealed(config: Config, stashId: string, sealed: SealedPayload): Promise<{ key: Buffer; created: CreatedStash }> {
+  try {
+    const created = await createStash(config, stashId, sealed.payload, sealed.revokeCredential);
+    return { key: sealed.key, created };
+  } catch (error) {
+    zeroBuffer(sealed.key);
+    throw error;
+  }
+}
+
+/**
+ * Encrypt bytes bound to a stash id and upload them, registering the revoke hash
+ * NOTE: Caller must zero the returned key
+ */
+async function sealAndUpload(
+  config: Config,
+  stashId: string,
+  bytes: Uint8Array,
+  meta: PayloadMetadata,
+  seal: SealOptions
+): Promise<{ key: Buffer; created: CreatedStash }> {
+  return uploadSealed(config, stashId, sealPayload(stashId, bytes, meta, seal));
+}
+
+/**
+ * Upload a large secret as independently keyed parts plus a manifest
+ * Part ids and keys are chosen up front so the manifest can be sealed and size-checked
+ * before anything is uploaded. The token points at the manifest; parts already created
+ * are deleted if anything fails
+ */
+async function uploadChunked(
+  config: Config,
+  secret: Buffer,
+  meta: PayloadMetadata,
+  seal: SealOptions,
+  manifestId: string = randomUUID()
+): Promise<UploadedStash> {
+  const chunks = splitIntoChunks(secret, CHUNK_SIZE);
+  // Parts get plain random keys; the (possibly passphrase- or recipient-protected) manifest holds them
+  const partKeys = chunks.map(() => randomBytes(KEY_LENGTH));
+  const parts: ManifestPart[] = chunks.map((chunk, index) =>
+    ({ id: randomUUID(), key: encodeKey(partKeys[index]), size: chunk.length, sha256: digest(chunk) }));
+  // Parts uploaded so far, for cleanup
+  const uploaded: PartCredential[] = [];
+  let manifestBytes: Buffer | undefined;
+  let manifest: SealedPayload | undefined;
+
+  try {
+    manifestBytes = encodeManifest({ size: secret.length, sha256: digest(secret), parts });
+    manifest = sealPayload(manifestId, manifestBytes, meta, { ...seal, type: 'manifest' });
+    checkPayloadSize(manifestId, manifest.payload, manifest.revokeCredential);
+
+    for (const [index, chunk] of chunks.entries()) {
+      const partId = parts[index].id;
+      const partMeta = { ...meta, part: { set: manifestId, index, count: chunks.length } };
+      await sealAndUpload(config, partId, chunk, partMeta, { alg: seal.alg, type: 'part', key: partKeys[index] });
+      uploaded.push({ id: partId, revokeCredential: deriveRevokeCredential(partId, partKeys[index]) });
     }
-    if (!validateSecretBufferLength(secretBuffer, MAX_SECRET_LENGTH)) {
-      exitWithMessage(`Secret too long (max ${MAX_SECRET_LENGTH} bytes)`);
+
+    return { ...await uploadSealed(config, manifestId, manifest), parts: uploaded };
+  } catch (error) {
+    zeroBuffer(manifest?.key);
+    // Best effort: don't leave orphaned parts behind
+    await deleteParts(config, uploaded);
+    throw error;
+  } finally {
+    zeroBuffer(manifestBytes);
+    partKeys.forEach((key) => zeroBuffer(key));
+  }
+}
+
+/**
+ * Upload a secret as a single stash, or as parts plus a manifest when it is too large
+ */
+async function uploadSecret(
+  config: Config,
+  secret: Buffer,
+  meta: PayloadMetadata,
+  seal: SealOptions,
+  stashId: string = randomUUID()
+): Promise<UploadedStash> {
+  if (secret.length > MAX_SECRET_LENGTH) {
+    return uploadChunked(config, secret, meta, seal, stashId);
+  }
+  // Convert to Uint8Array for encryption (minimal copy)
+  const secretBytes = new Uint8Array(secret.buffer, secret.byteOffset, secret.byteLength);
+  return { ...await sealAndUpload(config, stashId, secretBytes, meta, seal), parts: [] };
+}
+
+interface LabelledStash extends UploadedStash {
+  label: string;
+}
+
+/**
+ * Create one independently keyed stash per label
+ * If any copy fails, the copies already created (and their parts) are deleted again
+ * NOTE: Caller must zero every returned key
+ */
+async function uploadCopies(
+  config: Config,
+  labels: string[],
+  secret: Buffer,
+  meta: PayloadMetadata,
+  seal: SealOptions
+): Promise<LabelledStash[]> {
+  const copies: LabelledStash[] = [];
+  try {
+    for (const label of labels) {
+      copies.push({ label, ...await uploadSecret(config, secret, meta, seal) });
     }
+    return copies;
+  } catch (error) {
+    await Promise.all(copies.map(async ({ created, key, parts }) => {
+      await deleteStash(config, created.id, deriveRevokeCredential(created.id, key)).catch(() => undefined);
+      await deleteParts(config, parts);
+    }));
+    copies.forEach(({ key }) => zeroBuffer(key));
+    throw error;
+  }
+}
+
+export interface EnstashOptions extends ConfigOptions {
+  cipher: CipherAlgorithm;
+  passphrase?: boolean;
+  ttl?: string;
+  maxReads?: string;
+  link?: boolean;
+  printRevokeToken?: boolean;
+  to?: string;
+  reply?: string;
+  shares?: string;
+  threshold?: string;
+  recipients?: string;
+  label?: string;
+  wait?: boolean;
+  timeout?: string;
+  multiline?: boolean;
+  file?: string;
+  fromEnv?: string;
+  filename?: string;
+  contentType?: string;
+  envFile?: string;
+  keys?: string;
+}
+
+/**
+ * Resolve --recipients into a list of distinct labels
+ */
+function resolveRecipients(options: EnstashOptions): string[] | undefined {
+  if (options.recipients === undefined) {
+    return undefined;
+  }
+  const labels = options.recipients.split(',').map((label) => label.trim()).filter(Boolean);
+  if (!labels.length || labels.length > MAX_RECIPIENTS) {
+    exitWithMessage(`--recipients needs 1 to ${MAX_RECIPIENTS} comma-separated labels`, 'invalid_input');
+  }
+  const invalid = labels.find((label) => !validateLabel(label));
+  if (invalid !== undefined) {
+    exitWithMessage(`Invalid recipient label "${invalid}": use letters, digits, ".", "_", "@", "+" or "-"`, 'invalid_input');
   }
+  if (new Set(labels).size !== labels.length) {
+    exitWithMessage('Recipient labels must be unique', 'invalid_input');
+  }
+  return labels;
+}
 
-  let secretBytes: Uint8Array | undefined;
+/**
+ * Record created stashes in the local ledger (never the key)
+ * The stashes exist either way, so a ledger failure only warns
+ */
+async function recordStashes(entries: LedgerEntry[]): Promise<void> {
   try {
-    // Convert to Uint8Array for encryption (minimal copy)
-    secretBytes = new Uint8Array(secretBuffer.buffer, secretBuffer.byteOffset, secretBuffer.byteLength);
-    
-    // Encrypt the secret
-    const encryptionResult = encrypt(secretBytes);
+    await appendToLedger(entries);
+  } catch (error: any) {
+    console.error(`Warning: could not record in the ledger: ${error.message}`);
+  }
+}
+
+/**
+ * Validate --filename and --content-type before any input is read
+ */
+function checkEnvelopeOptions(options: EnstashOptions): void {
+  if (options.filename !== undefined && !validateFilename(options.filename)) {
+    exitWithMessage(`Invalid --filename "${options.filename}": use a plain file name without directories`, 'invalid_input');
+  }
+  if (options.contentType !== undefined && !validateContentType(options.contentType)) {
+    exitWithMessage(`Invalid --content-type "${options.contentType}": expected type/subtype, e.g. application/pkcs12`, 'invalid_input');
+  }
+}
+
+/**
+ * Frame the secret with encrypted metadata when there is any to carry:
+ * a file name, a content type, or bytes that are not text
+ * Text passed without either keeps the bare format older clients can read
+ * NOTE: Result contains the secret; caller must zero it (and the input is zeroed when replaced)
+ */
+function wrapSecret(secret: Buffer, options: EnstashOptions): { bytes: Buffer; plaintext?: PlaintextFormat } {
+  const text = isUtf8(secret);
+  const sourceFile = options.file ?? options.envFile;
+  const fileBase = sourceFile !== undefined ? basename(sourceFile) : undefined;
+  const filename = options.filename ?? (fileBase && validateFilename(fileBase) ? fileBase : undefined);
+  const contentType = options.envFile !== undefined ? ENV_BUNDLE_CONTENT_TYPE : options.contentType;
+  if (text && filename === undefined && contentType === undefined) {
+    return { bytes: secret };
+  }
 
+  const meta: EnvelopeMetadata = {
+    filename,
+    contentType: contentType ?? guessContentType(secret),
+    // Files and binary data come back byte for byte; typed text gets a newline like before
+    trailingNewline: text && sourceFile === undefined
+  };
+  const bytes = encodeEnvelope(meta, secret);
+  zeroBuffer(secret);
+  if (bytes.length > MAX_CHUNKED_SECRET_LENGTH) {
+    zeroBuffer(bytes);
+    exitWithMessage(`Secret too long with its metadata (max ${MAX_CHUNKED_SECRET_LENGTH} bytes)`, 'invalid_input');
+  }
+  return { bytes, plaintext: 'envelope' };
+}
+
+/**
+ * Resolve --timeout into seconds; only meaningful with --wait
+ */
+function resolveWaitTimeout(options: EnstashOptions): number | undefined {
+  if (options.timeout === undefined) {
+    return undefined;
+  }
+  if (!options.wait) {
+    exitWithMessage('--timeout only applies with --wait', 'invalid_input');
+  }
+  const seconds = parseDuration(options.timeout);
+  if (seconds === null || seconds <= 0) {
+    exitWithMessage(`Invalid --timeout "${options.timeout}": use e.g. 90s, 10m or 2h`, 'invalid_input');
+  }
+  return seconds;
+}
+
+/**
+ * A status that is no longer active: the stash was consumed, expired or revoked
+ */
+type GoneStatus = StashStatus & { status: Exclude<StashState, 'active'> };
+
+function isGone(status: StashStatus): status is GoneStatus {
+  return status.status !== 'active';
+}
+
+/**
+ * Poll the stash status until it is no longer active or the deadline passes
+ * Intervals use the fetchWithRetry backoff and start over whenever a read is seen
+ */
+async function pollUntilGone(config: Config, id: string, deadline: number): Promise<GoneStatus | undefined> {
+  let attempt = 0;
+  let remainingReads: number | undefined;
+  for (;;) {
     try {
-      if (encryptionResult.key.length !== KEY_LENGTH) {
-        throw new Error(`Encryption key must be ${KEY_LENGTH} bytes`);
+      const status = await fetchStatus(config, id);
+      if (isGone(status)) {
+        return status;
+      }
+      if (remainingReads !== undefined && status.remainingReads !== remainingReads) {
+        attempt = 0;
+        if (!isJsonOutput() && status.remainingReads !== undefined) {
+          console.error(`Stash read; ${status.remainingReads} read${status.remainingReads === 1 ? '' : 's'} remaining`);
+        }
       }
+      remainingReads = status.remainingReads;
+    } catch (error) {
+      // A flaky connection shouldn't end the wait; anything else (e.g. not found) does
+      if (!(error instanceof CliError) || error.code !== 'network_error') {
+        throw error;
+      }
+    }
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      return undefined;
+    }
+    await delay(Math.min(computeBackoff(attempt++, WAIT_POLL_BASE_MS, WAIT_POLL_MAX_MS), remaining));
+  }
+}
 
-      const payload = createPayload(encryptionResult);
-      const bodyStr = encodePayload(payload);
-      const bodyBytes = Buffer.byteLength(bodyStr, 'utf8');
-      
-      if (bodyBytes > MAX_PAYLOAD_SIZE) {
-        exitWithMessage(`Encrypted payload is ${bodyBytes} bytes (limit is ${MAX_PAYLOAD_SIZE})`);
+/**
+ * Wait for a created stash to be consumed, expire or be revoked, and exit accordingly:
+ * 0 consumed, 3 revoked, 4 expired, 8 still unread at the timeout
+ */
+async function waitForOutcome(config: Config, id: string, expiresAt: string | undefined, timeoutSeconds?: number): Promise<void> {
+  // Without --timeout, wait until just past expiry so the expiry itself is observed
+  const expiry = expiresAt ? Date.parse(expiresAt) : NaN;
+  const deadline = timeoutSeconds !== undefined
+    ? Date.now() + timeoutSeconds * 1000
+    : (Number.isNaN(expiry) ? Date.now() + MAX_TTL_SECONDS * 1000 : expiry + WAIT_POLL_BASE_MS);
+  if (!isJsonOutput()) {
+    console.error('Waiting for the stash to be read (Ctrl-C to stop waiting)...');
+  }
+
+  let status: GoneStatus | undefined;
+  try {
+    status = await pollUntilGone(config, id, deadline);
+  } catch (error) {
+    exitWithError(error, 'Failed to check the stash while waiting.', 'network_error');
+  }
+  if (!status) {
+    exitWithMessage(`Still unread when the timeout passed. Check later with: stasher status ${id}`, 'timeout', { id, state: 'active' });
+  }
+
+  await noteGoneInLedger(new Map([[id, status.status]]));
+  const details = { id, state: status.status, expiresAt: status.expiresAt ?? expiresAt ?? null };
+  if (status.status === 'expired') {
+    exitWithMessage(`Stash ${id} expired before it was read.`, 'expired', details);
+  }
+  if (status.status === 'revoked') {
+    exitWithMessage(`Stash ${id} was revoked before it was read.`, 'not_found', details);
+  }
+  // stderr in text mode: stdout already holds the token
+  if (isJsonOutput()) {
+    writeResult(details, '');
+  } else {
+    console.error(`Stash ${id} has been read.`);
+  }
+}
+
+/**
+ * Resolve --ttl (or the profile default) and --max-reads into validated numbers
+ */
+function resolveLifetime(options: EnstashOptions, defaultTtl?: string): { ttl?: number; maxReads?: number } {
+  let ttl: number | undefined;
+  const ttlInput = options.ttl ?? defaultTtl;
+  if (ttlInput !== undefined) {
+    const seconds = parseDuration(ttlInput);
+    if (seconds === null || !validateTtl(seconds)) {
+      exitWithMessage(
+        `Invalid TTL "${ttlInput}": use e.g. 90s, 10m, 2h or 7d, between ${MIN_TTL_SECONDS}s and ${MAX_TTL_SECONDS / 86400}d`,
+        'invalid_input'
+      );
+    }
+    ttl = seconds;
+  }
+
+  let maxReads: number | undefined;
+  if (options.maxReads !== undefined) {
+    maxReads = Number(options.maxReads);
+    if (!validateMaxReads(maxReads)) {
+      exitWithMessage(`Invalid --max-reads "${options.maxReads}": must be an integer from 1 to ${MAX_READS_LIMIT}`, 'invalid_input');
+    }
+  }
+  return { ttl, maxReads };
+}
+
+/**
+ * Resolve --shares/--threshold into a validated M-of-N split, if requested
+ */
+function resolveSharing(options: EnstashOptions): { count: number; threshold: number } | undefined {
+  if (options.shares === undefined && options.threshold === undefined) {
+    return undefined;
+  }
+  if (options.shares === undefined || options.threshold === undefined) {
+    exitWithMessage('--shares and --threshold must be used together', 'invalid_input');
+  }
+  const count = Number(options.shares);
+  const threshold = Number(options.threshold);
+  if (!Number.isInteger(count) || !Number.isInteger(threshold) || threshold < 2 || count < threshold || count > MAX_SHARES) {
+    exitWithMessage(`Invalid split: need integers with 2 <= --threshold <= --shares <= ${MAX_SHARES}`, 'invalid_input');
+  }
+  return { count, threshold };
+}
+
+export function createEnstashCommand(): Command {
+  return new Command('enstash')
+    .description('Encrypt and upload a one-time secret to stashed.dev')
+    .usage('[options] [secret...]')
+    .argument('[secret...]', 'Secret string (defaults to stdin, or a masked prompt on a terminal)')
+    .addOption(
+      new Option('--cipher <algorithm>', 'AEAD cipher used to encrypt the secret')
+        .choices(CIPHER_ALGORITHMS)
+        .default(DEFAULT_CIPHER)
+    )
+    .option('--file <path>', 'Read the secret from a file')
+    .option('--from-env <name>', 'Read the secret from an environment variable, then unset it')
+    .option('--filename <name>', 'File name to store (encrypted) with the secret (default: the --file name)')
+    .addOption(
+      new Option('--content-type <type>', 'Content type to store (encrypted) with the secret, e.g. application/pkcs12')
+        .conflicts('envFile')
+    )
+    .option('--env-file <path>', 'Stash variables from a dotenv file as one bundle (see destash --format)')
+    .option('--keys <names>', 'With --env-file, only these comma-separated variables (e.g. A,B,C)')
+    .option('--multiline', 'At the prompt, accept several lines and finish with Ctrl-D')
+    .option('--passphrase', 'Require a passphrase (prompted) in addition to the token')
+    .option('--ttl <duration>', 'Lifetime before the stash expires, e.g. 30m, 2h, 7d (default: profile or server)')
+    .option('--max-reads <count>', 'Number of reads allowed before the stash is burned (default: 1)')
+    .option('--link', 'Print a share link (key in the URL fragment) instead of a bare token')
+    .option('--print-revoke-token', 'Also print a token that can delete the stash but not read it')
+    .option('--to <name>', 'Encrypt to a public key from the keyring (see `stasher keys`)')
+    .addOption(
+      new Option('--reply <code>', 'Answer a request code from `stasher request` (no token is printed)')
+        .conflicts(['to', 'passphrase', 'link', 'printRevokeToken', 'shares', 'recipients', 'wait'])
+    )
+    .addOption(
+      new Option('--recipients <labels>', 'Create one independent stash per comma-separated label (e.g. alice,bob)')
+        .conflicts(['to', 'shares', 'label'])
+    )
+    .option('--label <label>', 'Label for this stash in the local ledger (see stasher list)')
+    .addOption(new Option('--shares <count>', 'Split the key into this many share tokens instead of one token').conflicts('link'))
+    .option('--threshold <count>', 'Number of shares needed to open the stash (with --shares)')
+    .addOption(
+      new Option('--wait', 'Keep running until the stash is read, expires or is revoked (the exit code says which)')
+        .conflicts('recipients')
+    )
+    .option('--timeout <duration>', 'Stop waiting after this long (with --wait; default: when the stash expires)')
+    .addHelpText('after', `
+  Examples:
+  echo "secret" | enstash
+  enstash                                (prompts without echoing the secret)
+  enstash --multiline                    (paste a key or certificate, then Ctrl-D)
+  enstash --file ./id_ed25519
+  enstash --file keystore.p12 --content-type application/pkcs12
+  enstash --env-file .env.production --keys DB_URL,API_KEY
+  enstash --from-env DB_PASSWORD
+  enstash "API_KEY=abc123"
+  stasher enstash "my secret"
+  enstash --cipher chacha20-poly1305 "my secret"
+  enstash --passphrase "my secret"
+  enstash --ttl 2h --max-reads 3 "my secret"
+  enstash --link "my secret"
+  enstash --print-revoke-token "my secret"
+  enstash --to alice "my secret"
+  enstash --reply "request:uuid:publickey" "my secret"
+  enstash --shares 5 --threshold 3 "break-glass secret"
+  enstash --recipients alice,bob,carol "db password"
+  enstash --wait --timeout 1h "my secret"   (exit 0 read, 3 revoked, 4 expired, 8 timed out)
+    `)
+    .action((secretArgs: string[], _options, command: Command) => runEnstash(secretArgs, command.optsWithGlobals()));
+}
+
+/**
+ * Record fan-out copies in the local ledger and print a labelled table (or JSON)
+ */
+async function writeCopies(config: Config, copies: LabelledStash[], options: EnstashOptions, maxReads?: number): Promise<void> {
+  await recordStashes(copies.map(({ label, created, key, parts }) => ({
+    id: created.id,
+    label,
+    createdAt: new Date().toISOString(),
+    expiresAt: created.expiresAt,
+    revokeCredential: deriveRevokeCredential(created.id, key),
+    ...(parts.length ? { parts } : {})
+  })));
+
+  const rows = copies.map(({ label, created, key, parts }) => ({
+    label,
+    id: created.id,
+    token: formatStashToken(created.id, key),
+    ...(options.link ? { link: formatStashLink(config.apiBaseUrl, created.id, key) } : {}),
+    ...(options.printRevokeToken
+      ? { revokeToken: formatRevokeToken(created.id, deriveRevokeCredential(created.id, key)) }
+      : {}),
+    expiresAt: created.expiresAt ?? null,
+    maxReads: created.maxReads ?? maxReads ?? 1,
+    ...(parts.length ? { parts: parts.length } : {})
+  }));
+
+  const labelWidth = Math.max(5, ...rows.map((row) => row.label.length));
+  const text = [
+    `${'LABEL'.padEnd(labelWidth)}  ${options.link ? 'LINK' : 'TOKEN'}`,
+    ...rows.map((row) => `${row.label.padEnd(labelWidth)}  ${row.link ?? row.token}`)
+  ].join('\n');
+  writeResult({ status: 'created', recipients: rows }, text);
+
+  if (!isJsonOutput()) {
+    if (rows[0].expiresAt) {
+      console.error(`Expires at ${rows[0].expiresAt}`);
+    }
+    if (options.printRevokeToken) {
+      rows.forEach((row) => console.error(`Revoke token for ${row.label}: ${row.revokeToken}`));
+    }
+    console.error(`Revoke one copy with: stasher unstash --label <label>`);
+  }
+}
+
+export async function runEnstash(secretArgs: string[], options: EnstashOptions): Promise<void> {
+  const config = loadConfig(options);
+  const { ttl, maxReads } = resolveLifetime(options, config.defaultTtl);
+  const sharing = resolveSharing(options);
+  const labels = resolveRecipients(options);
+  const waitTimeout = resolveWaitTimeout(options);
+  checkEnvelopeOptions(options);
+  if (options.label !== undefined && !validateLabel(options.label)) {
+    exitWithMessage(`Invalid label "${options.label}": use letters, digits, ".", "_", "@", "+" or "-"`, 'invalid_input');
+  }
+
+  const { bytes: secretBuffer, plaintext } = wrapSecret(await readSecret(secretArgs, options, config.argvSecrets), options);
+
+  // Recipient key: ECDH with a fresh ephemeral key, mixed into the cipher key via HKDF
+  let recipient: RecipientParams | undefined;
+  let recipientKey: Buffer | undefined;
+  // Replies go to the requester's chosen id, with a token key both sides can derive
+  let replyId: string | undefined;
+  let replyKey: Buffer | undefined;
+  if (options.reply !== undefined) {
+    const request = parseRequestCode(options.reply);
+    if (!request) {
+      zeroBuffer(secretBuffer);
+      exitWithMessage('Invalid request code. Expected request:uuid:publickey', 'invalid_input');
+    }
+    replyId = request.id;
+    ({ params: recipient, recipientKey } = createRecipientKey(request.publicKey));
+    replyKey = deriveReplyKey(recipientKey);
+  } else if (options.to !== undefined) {
+    try {
+      const entry = findKey(await loadKeyring(), options.to);
+      if (!entry) {
+        throw new Error(`no key named "${options.to}" in the keyring (see stasher keys list)`);
       }
+      ({ params: recipient, recipientKey } = createRecipientKey(entry.publicKey));
+    } catch (error: any) {
+      zeroBuffer(secretBuffer);
+      exitWithMessage(`Cannot encrypt to ${options.to}: ${error.message}`, 'invalid_input');
+    }
+  }
 
-      const config = loadEnvConfig();
+  // Passphrase is never taken from argv; it is mixed into the cipher key via scrypt + HKDF
+  const kdf = options.passphrase ? createKdfParams() : undefined;
+  let passphraseKey: Buffer | undefined;
+  if (kdf) {
+    let passphrase: Buffer | undefined;
+    try {
+      passphrase = await readNewPassphrase();
+      passphraseKey = await derivePassphraseKey(passphrase, kdf);
+    } catch (error: any) {
+      zeroBuffer(secretBuffer);
+      zeroBuffer(recipientKey);
+      exitWithMessage(`Failed to read passphrase: ${error.message}`, 'invalid_input');
+    } finally {
+      zeroBuffer(passphrase);
+    }
+  }
 
-      // Use fetch with retry for network resilience
-      const { fetchWithRetry } = await import('../utils/fetch-retry');
-      
-      const response = await fetchWithRetry(`${config.apiBaseUrl}/enstash`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: bodyStr
-      });
+  let waitFor: CreatedStash | undefined;
+  try {
+    const meta: PayloadMetadata = { createdAt: new Date().toISOString(), ttl, maxReads };
+    const seal: SealOptions = { alg: options.cipher, key: replyKey, kdf, passphraseKey, recipient, recipientKey, plaintext };
 
-      if (!response.ok) {
-        exitWithMessage('Failed to create stash');
+    if (labels) {
+      const copies = await uploadCopies(config, labels, secretBuffer, meta, seal);
+      try {
+        await writeCopies(config, copies, options, maxReads);
+      } finally {
+        copies.forEach(({ key }) => zeroBuffer(key));
       }
+      return;
+    }
 
-      const result = await response.json() as { id: string };
-      const token = formatStashToken(result.id, encryptionResult.key);
-      process.stdout.write(token + '\n');
+    // Stash id is assigned locally so it can be bound into the AAD
+    const stash = await uploadSecret(config, secretBuffer, meta, seal, replyId);
 
+    try {
+      const { created } = stash;
+      await recordStashes([{
+        id: created.id,
+        label: options.label,
+        createdAt: meta.createdAt,
+        expiresAt: created.expiresAt,
+        revokeCredential: deriveRevokeCredential(created.id, stash.key),
+        ...(stash.parts.length ? { parts: stash.parts } : {})
+      }]);
+      waitFor = created;
+      if (replyId) {
+        // The requester already knows where to look and can derive the key
+        writeResult({
+          status: 'replied',
+          id: created.id,
+          expiresAt: created.expiresAt ?? null,
+          ...(stash.parts.length ? { parts: stash.parts.length } : {})
+        }, `Reply sent for request ${created.id}.`);
+        return;
+      }
+      // With a split, nobody (not even stdout) gets the whole key
+      const shares = sharing && formatShareTokens(created.id, stash.key, sharing.count, sharing.threshold);
+      const token = shares ? undefined : formatStashToken(created.id, stash.key);
+      const link = options.link ? formatStashLink(config.apiBaseUrl, created.id, stash.key) : undefined;
+      const revokeToken = options.printRevokeToken
+        ? formatRevokeToken(created.id, deriveRevokeCredential(created.id, stash.key))
+        : undefined;
+      const effectiveReads = created.maxReads ?? maxReads ?? 1;
+      writeResult({
+        status: 'created',
+        id: created.id,
+        ...(token ? { token } : {}),
+        ...(shares ? { shares, threshold: sharing!.threshold } : {}),
+        ...(link ? { link } : {}),
+        ...(revokeToken ? { revokeToken } : {}),
+        expiresAt: created.expiresAt ?? null,
+        maxReads: effectiveReads,
+        ...(stash.parts.length ? { parts: stash.parts.length } : {})
+      }, link ?? token ?? shares!.join('\n'));
+      if (!isJsonOutput() && created.expiresAt) {
+        // stderr keeps stdout limited to the token for `$(enstash ...)`
+        const reads = effectiveReads === 1 ? '1 read' : `${effectiveReads} reads`;
+        const parts = stash.parts.length ? `, ${stash.parts.length} parts` : '';
+        console.error(`Expires at ${created.expiresAt} (${reads} allowed${parts})`);
+      }
+      if (!isJsonOutput() && shares) {
+        console.error(`Any ${sharing!.threshold} of these ${sharing!.count} shares open the stash; give each to a different person.`);
+      }
+      if (!isJsonOutput() && revokeToken) {
+        console.error(`Revoke token (keep it to yourself): ${revokeToken}`);
+      }
     } finally {
-      // Zero out all sensitive data
-      zeroBuffer(encryptionResult.key);
-      zeroBuffer(secretBuffer);    // Sufficient - zeros underlying memory including secretBytes view
+      zeroBuffer(stash.key);
     }
 
   } catch (error: any) {
-    exitWithMessage("Operation failed. Please try again.");
+    exitWithError(error, 'Operation failed. Please try again.');
+  } finally {
+    // Zero out all sensitive data
+    zeroBuffer(passphraseKey);
+    zeroBuffer(recipientKey);
+    zeroBuffer(replyKey);
+    zeroBuffer(secretBuffer);    // Sufficient - zeros underlying memory including secretBytes view
+  }
+
+  // Keys are already zeroed: the status endpoint only needs the id
+  if (options.wait && waitFor) {
+    await waitForOutcome(config, waitFor.id, waitFor.expiresAt, waitTimeout);
   }
 }
@@ -0,0 +1,116 @@
+import { Command } from 'commander';
+import { ConfigOptions } from '../utils/config';
+import { exitWithError, exitWithMessage, writeResult } from '../utils/output';
+import { generateX25519KeyPair, keyId } from '../utils/crypto';
+import {
+  findKey,
+  formatPublicKey,
+  getKeyringPath,
+  loadKeyring,
+  parsePublicKey,
+  saveKeyring,
+  validateKeyName
+} from '../utils/keyring';
+
+export function createKeysCommand(): Command {
+  const keys = new Command('keys')
+    .description('Manage the local keyring for public-key recipients (enstash --to)');
+
+  keys
+    .command('generate')
+    .description('Generate a new X25519 identity and print its public key')
+    .argument('<name>', 'Local name for the identity')
+    .addHelpText('after', `
+💡 Examples:
+   stasher keys generate me
+   (send the printed x25519:... public key to whoever should stash secrets for you)
+    `)
+    .action((name: string, _options, command: Command) => runKeysGenerate(name, command.optsWithGlobals()));
+
+  keys
+    .command('import')
+    .description('Import someone else\'s public key under a name')
+    .argument('<name>', 'Name to use with enstash --to')
+    .argument('<public-key>', 'Public key as printed by their `keys generate` (x25519:...)')
+    .addHelpText('after', `
+💡 Examples:
+   stasher keys import alice x25519:base64key...
+   enstash --to alice "secret"
+    `)
+    .action((name: string, publicKey: string, _options, command: Command) =>
+      runKeysImport(name, publicKey, command.optsWithGlobals()));
+
+  keys
+    .command('list')
+    .description('List identities and imported public keys')
+    .action((_options, command: Command) => runKeysList(command.optsWithGlobals()));
+
+  return keys;
+}
+
+function checkNewName(name: string): void {
+  if (!validateKeyName(name)) {
+    exitWithMessage('Invalid key name: use 1-64 letters, digits, ".", "_" or "-"', 'invalid_input');
+  }
+}
+
+export async function runKeysGenerate(name: string, _options: ConfigOptions = {}): Promise<void> {
+  checkNewName(name);
+  try {
+    const keyring = await loadKeyring();
+    if (findKey(keyring, name)) {
+      exitWithMessage(`A key named "${name}" already exists`, 'invalid_input');
+    }
+    const pair = generateX25519KeyPair();
+    keyring.keys.push({ name, ...pair, createdAt: new Date().toISOString() });
+    await saveKeyring(keyring);
+
+    const publicKey = formatPublicKey(pair.publicKey);
+    writeResult({ status: 'generated', name, keyId: keyId(pair.publicKey), publicKey }, publicKey);
+  } catch (error) {
+    exitWithError(error, 'Failed to update the keyring.');
+  }
+}
+
+export async function runKeysImport(name: string, input: string, _options: ConfigOptions = {}): Promise<void> {
+  checkNewName(name);
+  const publicKey = parsePublicKey(input);
+  if (!publicKey) {
+    exitWithMessage('Invalid public key: expected x25519: followed by 32 bytes of base64url', 'invalid_input');
+  }
+  try {
+    const keyring = await loadKeyring();
+    if (findKey(keyring, name)) {
+      exitWithMessage(`A key named "${name}" already exists`, 'invalid_input');
+    }
+    keyring.keys.push({ name, publicKey, createdAt: new Date().toISOString() });
+    await saveKeyring(keyring);
+    writeResult({ status: 'imported', name, keyId: keyId(publicKey) }, `Imported ${name} (${keyId(publicKey)})`);
+  } catch (error) {
+    exitWithError(error, 'Failed to update the keyring.');
+  }
+}
+
+export async function runKeysList(_options: ConfigOptions = {}): Promise<void> {
+  try {
+    const keyring = await loadKeyring();
+    const entries = keyring.keys.map((entry) => ({
+      name: entry.name,
+      kind: entry.privateKey ? 'identity' : 'contact',
+      keyId: keyId(entry.publicKey),
+      publicKey: formatPublicKey(entry.publicKey),
+      createdAt: entry.createdAt
+    }));
+
+    const nameWidth = Math.max(4, ...entries.map((e) => e.name.length));
+    const text = entries.length
+      ? [
+          `${'NAME'.padEnd(nameWidth)}  ${'KIND'.padEnd(8)}  ${'KEY ID'.padEnd(16)}  PUBLIC KEY`,
+          ...entries.map((e) => `${e.name.padEnd(nameWidth)}  ${e.kind.padEnd(8)}  ${e.keyId}  ${e.publicKey}`)
+        ].join('\n')
+      : `No keys in ${getKeyringPath()}`;
+    writeResult({ keyring: getKeyringPath(), keys: entries }, text);
+  } catch (error) {
+    exitWithError(error, 'Failed to read the keyring.');
+  }
+}
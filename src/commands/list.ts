@@ -0,0 +1,141 @@
+import { Command } from 'commander';
+import { loadConfig, Config, ConfigOptions } from '../utils/config';
+import { CliError, exitWithError, isJsonOutput, writeResult } from '../utils/output';
+import { fetchStatus } from '../utils/api';
+import {
+  getLedgerPath,
+  ledgerStatus,
+  noteGoneInLedger,
+  readLedger,
+  LedgerEntry,
+  LedgerOutcome,
+  LedgerStatus
+} from '../utils/ledger';
+
+export interface ListOptions extends ConfigOptions {
+  active?: boolean;
+  offline?: boolean;
+}
+
+/**
+ * Where a row's status came from: the server's /status endpoint just now, or the ledger alone
+ */
+type StatusSource = 'server' | 'ledger';
+
+interface ListedStatus {
+  status: LedgerStatus;
+  source: StatusSource;
+  remainingReads?: number;
+}
+
+export function createListCommand(): Command {
+  return new Command('list')
+    .description('List stashes created on this machine (from the local ledger), with their live status')
+    .option('--active', 'Only show stashes that are still waiting to be read')
+    .option('--offline', 'Do not ask the server; show what this machine knows')
+    .addHelpText('after', `
+💡 Status is checked with the server without consuming a read.
+   Statuses marked "(local)" come from the ledger alone: "active" there means not expired
+   and not revoked from here, so the stash may already have been read.
+    `)
+    .action((_options, command: Command) => runList(command.optsWithGlobals()));
+}
+
+/**
+ * Ask the server about every stash the ledger still thinks is active
+ * Stops asking once the server is unreachable, so an offline machine fails fast
+ */
+async function refreshStatuses(config: Config, entries: LedgerEntry[], now: number): Promise<Map<string, ListedStatus>> {
+  const statuses = new Map<string, ListedStatus>();
+  let reachable = true;
+  for (const entry of entries) {
+    const local = ledgerStatus(entry, now);
+    if (local !== 'active' || !reachable) {
+      // Closed and expired entries are final; the server has nothing to add
+      statuses.set(entry.id, { status: local, source: 'ledger' });
+      continue;
+    }
+    try {
+      const { status, remainingReads } = await fetchStatus(config, entry.id);
+      statuses.set(entry.id, { status, source: 'server', remainingReads });
+    } catch (error) {
+      if (error instanceof CliError && error.code === 'not_found') {
+        statuses.set(entry.id, { status: 'not_found', source: 'server' });
+        continue;
+      }
+      reachable = !(error instanceof CliError) || error.code !== 'network_error';
+      statuses.set(entry.id, { status: local, source: 'ledger' });
+    }
+  }
+  return statuses;
+}
+
+/**
+ * Close ledger entries the server reported gone, so later runs need not ask again
+ */
+async function noteInLedger(statuses: Map<string, ListedStatus>): Promise<void> {
+  const outcomes = new Map<string, LedgerOutcome>();
+  for (const [id, listed] of statuses) {
+    if (listed.source === 'server' && listed.status !== 'active') {
+      outcomes.set(id, listed.status);
+    }
+  }
+  if (outcomes.size) {
+    await noteGoneInLedger(outcomes);
+  }
+}
+
+export async function runList(options: ListOptions = {}): Promise<void> {
+  let entries: LedgerEntry[];
+  try {
+    entries = await readLedger();
+  } catch (error) {
+    exitWithError(error, 'Failed to read the ledger.');
+  }
+
+  const now = Date.now();
+  let statuses: Map<string, ListedStatus>;
+  if (options.offline) {
+    statuses = new Map(entries.map((entry) => [entry.id, { status: ledgerStatus(entry, now), source: 'ledger' }]));
+  } else {
+    statuses = await refreshStatuses(loadConfig(options), entries, now);
+    await noteInLedger(statuses);
+  }
+
+  // Only an active status can be stale; mark the ones the server did not confirm
+  const unconfirmed = (row: { status: LedgerStatus; source: StatusSource }) => row.status === 'active' && row.source === 'ledger';
+  const rows = entries
+    .map((entry) => {
+      const { status, source, remainingReads } = statuses.get(entry.id)!;
+      return {
+        id: entry.id,
+        label: entry.label ?? null,
+        createdAt: entry.createdAt,
+        expiresAt: entry.expiresAt ?? null,
+        status,
+        source,
+        ...(remainingReads !== undefined ? { remainingReads } : {})
+      };
+    })
+    .filter((row) => !options.active || row.status === 'active');
+
+  const labelWidth = Math.max(5, ...rows.map((row) => (row.label ?? '-').length));
+  const text = rows.length
+    ? [
+        `${'ID'.padEnd(36)}  ${'LABEL'.padEnd(labelWidth)}  ${'CREATED'.padEnd(24)}  ${'EXPIRES'.padEnd(24)}  STATUS`,
+        ...rows.map((row) => [
+          row.id,
+          (row.label ?? '-').padEnd(labelWidth),
+          row.createdAt.padEnd(24),
+          (row.expiresAt ?? '-').padEnd(24),
+          unconfirmed(row) ? 'active (local)' : row.status
+        ].join('  '))
+      ].join('\n')
+    : options.active ? 'No active stashes.' : `No stashes recorded in ${getLedgerPath()}`;
+  writeResult({ stashes: rows }, text);
+
+  const unchecked = rows.filter(unconfirmed).length;
+  if (unchecked && !options.offline && !isJsonOutput()) {
+    console.error(`Could not check ${unchecked} stash${unchecked === 1 ? '' : 'es'} with the server; "(local)" statuses may be out of date.`);
+  }
+}
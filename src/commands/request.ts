@@ -0,0 +1,212 @@
+import { Command } from 'commander';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { loadConfig, getStateDir, Config, ConfigOptions } from '../utils/config';
+import { CliError, exitWithError, exitWithMessage, isJsonOutput, writeResult } from '../utils/output';
+import { fetchStash } from '../utils/api';
+import { reassembleParts } from '../utils/chunking';
+import { delay } from '../utils/fetch-retry';
+import {
+  decryptToBytes,
+  deriveRecipientKey,
+  deriveReplyKey,
+  formatRequestCode,
+  generateX25519KeyPair,
+  keyId,
+  parsePayload,
+  zeroBuffer,
+  PlaintextFormat,
+  X25519KeyPair
+} from '../utils/crypto';
+import { checkOutputPath, deliverSecret } from '../utils/deliver';
+import { decodeEnvelope, EnvelopeMetadata } from '../utils/envelope';
+import { parseDuration, parseRequestCode } from '../utils/validation';
+import { DEFAULT_REQUEST_WAIT_SECONDS, REQUEST_POLL_INTERVAL_MS } from '../utils/constants';
+
+export interface RequestOptions extends ConfigOptions {
+  wait?: boolean;
+  timeout?: string;
+  output?: string;
+  force?: boolean;
+}
+
+interface PendingRequest extends X25519KeyPair {
+  id: string;
+  createdAt: string;
+}
+
+/**
+ * Pending requests keep their private key under the state dir until the reply is read
+ */
+function pendingRequestPath(id: string): string {
+  // ids come from randomUUID() or a validated request code, so no traversal
+  return join(getStateDir(), 'requests', `${id}.json`);
+}
+
+async function savePendingRequest(request: PendingRequest): Promise<void> {
+  const path = pendingRequestPath(request.id);
+  await fs.mkdir(join(getStateDir(), 'requests'), { recursive: true, mode: 0o700 });
+  await fs.writeFile(path, JSON.stringify(request), { mode: 0o600 });
+}
+
+async function loadPendingRequest(id: string): Promise<PendingRequest | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(pendingRequestPath(id), 'utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+async function removePendingRequest(id: string): Promise<void> {
+  await fs.rm(pendingRequestPath(id), { force: true });
+}
+
+export function createRequestCommand(): Command {
+  return new Command('request')
+    .description('Ask someone for a secret: print a code they answer with `enstash --reply`')
+    .usage('[options] [code]')
+    .argument('[code]', 'Wait for the reply to an earlier request (implies --wait)')
+    .option('--wait', 'Poll until the reply arrives, then decrypt and print it')
+    .option('--timeout <duration>', `Give up waiting after this long (default: ${DEFAULT_REQUEST_WAIT_SECONDS / 60}m)`)
+    .option('-o, --output <path>', 'Write the reply byte for byte to a new file (mode 0600) instead of stdout')
+    .option('--force', 'With --output, replace an existing file')
+    .addHelpText('after', `
+💡 Examples:
+   stasher request --wait                 (prints a code, then waits for the reply)
+   stasher request                        (prints a code and exits)
+   stasher request --wait "request:uuid:publickey"
+   stasher request --wait --output client.p12
+   enstash --reply "request:uuid:publickey" "secret"   (run by the sender)
+    `)
+    .action((code: string | undefined, _options, command: Command) => runRequest(code, command.optsWithGlobals()));
+}
+
+/**
+ * Poll for the reply stash until it exists or the deadline passes
+ * Fetching consumes it, so this returns the one and only copy
+ */
+async function waitForReply(config: Config, request: PendingRequest, deadline: number): Promise<string> {
+  for (;;) {
+    try {
+      return await fetchStash(config, request.id);
+    } catch (error) {
+      if (!(error instanceof CliError) || error.code !== 'not_found') {
+        throw error;
+      }
+    }
+    if (Date.now() + REQUEST_POLL_INTERVAL_MS > deadline) {
+      const code = formatRequestCode(request.id, request.publicKey);
+      throw new CliError(`No reply arrived before the timeout. To keep waiting: stasher request --wait "${code}"`, 'not_found');
+    }
+    await delay(REQUEST_POLL_INTERVAL_MS);
+  }
+}
+
+/**
+ * Decrypt a reply with the request's private key (and fetch its parts if it is large)
+ * NOTE: Caller must zero the returned buffer
+ */
+async function openReply(
+  config: Config,
+  request: PendingRequest,
+  body: string
+): Promise<{ bytes: Buffer; plaintext?: PlaintextFormat }> {
+  const payload = parsePayload(body);
+  if (payload.type === 'part' || payload.recipient?.kid !== keyId(request.publicKey)) {
+    throw new CliError('The reply was not encrypted to this request.', 'decryption_failed');
+  }
+
+  const recipientKey = deriveRecipientKey(payload.recipient, request);
+  const key = deriveReplyKey(recipientKey);
+  let bytes: Buffer | undefined;
+  try {
+    bytes = decryptToBytes(payload, key, { stashId: request.id, recipientKey });
+    if (payload.type === 'manifest') {
+      const manifestBytes = bytes;
+      try {
+        bytes = await reassembleParts(config, request.id, manifestBytes);
+      } finally {
+        zeroBuffer(manifestBytes);
+      }
+    }
+    return { bytes, plaintext: payload.plaintext };
+  } catch (error) {
+    zeroBuffer(bytes);
+    throw error;
+  } finally {
+    zeroBuffer(recipientKey);
+    zeroBuffer(key);
+  }
+}
+
+export async function runRequest(code: string | undefined, options: RequestOptions): Promise<void> {
+  const config = loadConfig(options);
+
+  let waitSeconds = DEFAULT_REQUEST_WAIT_SECONDS;
+  if (options.timeout !== undefined) {
+    const seconds = parseDuration(options.timeout);
+    if (seconds === null || seconds <= 0) {
+      exitWithMessage(`Invalid --timeout "${options.timeout}": use e.g. 90s, 10m or 2h`, 'invalid_input');
+    }
+    waitSeconds = seconds;
+  }
+  if (options.force && options.output === undefined) {
+    exitWithMessage('--force only applies with --output', 'invalid_input');
+  }
+  if (options.output !== undefined) {
+    if (code === undefined && !options.wait) {
+      exitWithMessage('--output only applies when waiting for the reply (--wait or a request code)', 'invalid_input');
+    }
+    await checkOutputPath(options.output, options.force ?? false);
+  }
+
+  let request: PendingRequest | undefined;
+  if (code !== undefined) {
+    const parsed = parseRequestCode(code);
+    if (!parsed) {
+      exitWithMessage('Invalid request code. Expected request:uuid:publickey', 'invalid_input');
+    }
+    request = await loadPendingRequest(parsed.id);
+    if (!request || request.publicKey !== parsed.publicKey) {
+      exitWithMessage('This request was not created on this machine (or its reply was already read).', 'invalid_input');
+    }
+  } else {
+    // Only the public half ever leaves this machine
+    request = { id: randomUUID(), ...generateX25519KeyPair(), createdAt: new Date().toISOString() };
+    try {
+      await savePendingRequest(request);
+    } catch (error: any) {
+      exitWithMessage(`Failed to save the request: ${error.message}`);
+    }
+    const requestCode = formatRequestCode(request.id, request.publicKey);
+    if (!options.wait) {
+      writeResult({ status: 'requested', id: request.id, code: requestCode }, requestCode);
+      if (!isJsonOutput()) {
+        console.error(`Send this code to the sender, then run: stasher request --wait "${requestCode}"`);
+      }
+      return;
+    }
+    // stderr so stdout carries only the secret (or the single JSON result)
+    console.error(`Send this code to the sender: ${requestCode}`);
+  }
+
+  let secret: Buffer | undefined;
+  try {
+    const body = await waitForReply(config, request, Date.now() + waitSeconds * 1000);
+    const reply = await openReply(config, request, body);
+    secret = reply.bytes;
+    await removePendingRequest(request.id);
+    // Same delivery as destash: exact bytes for enveloped replies, legacy ones as text
+    let data = secret;
+    let meta: EnvelopeMetadata | undefined;
+    if (reply.plaintext === 'envelope') {
+      ({ meta, data } = decodeEnvelope(secret));
+    }
+    await deliverSecret(request.id, data, meta, options);
+  } catch (error) {
+    exitWithError(error, 'Failed to retrieve or decrypt the reply.', 'decryption_failed');
+  } finally {
+    zeroBuffer(secret);
+  }
+}
@@ -0,0 +1,118 @@
+import { Command } from 'commander';
+import { loadConfig, ConfigOptions } from '../utils/config';
+import { EXIT_CODES, exitWithError, exitWithMessage, isJsonOutput, writeResult } from '../utils/output';
+import { deleteStash } from '../utils/api';
+import { deleteParts } from '../utils/chunking';
+import {
+  closeLedgerEntries,
+  ledgerStatus,
+  outcomeFromError,
+  readLedger,
+  LedgerEntry,
+  LedgerOutcome
+} from '../utils/ledger';
+import { parseDuration } from '../utils/validation';
+
+export interface RevokeOptions extends ConfigOptions {
+  all?: boolean;
+  olderThan?: string;
+  dryRun?: boolean;
+}
+
+export function createRevokeCommand(): Command {
+  return new Command('revoke')
+    .description('Delete every active stash you created (from the local ledger)')
+    .option('--all', 'Revoke all active stashes')
+    .option('--older-than <duration>', 'Only revoke stashes created longer ago than this, e.g. 2h, 7d')
+    .option('--dry-run', 'Show what would be revoked without deleting anything')
+    .addHelpText('after', `
+💡 Examples:
+   stasher revoke --all
+   stasher revoke --older-than 1d
+   stasher revoke --all --dry-run
+    `)
+    .action((_options, command: Command) => runRevoke(command.optsWithGlobals()));
+}
+
+/**
+ * Pick the active ledger entries selected by --all / --older-than
+ */
+function selectEntries(ledger: LedgerEntry[], options: RevokeOptions): LedgerEntry[] {
+  if (!options.all && options.olderThan === undefined) {
+    exitWithMessage('Pass --all or --older-than <duration>.', 'invalid_input');
+  }
+  let cutoff = Infinity;
+  if (options.olderThan !== undefined) {
+    const seconds = parseDuration(options.olderThan);
+    if (seconds === null) {
+      exitWithMessage(`Invalid --older-than "${options.olderThan}": use e.g. 90s, 10m, 2h or 7d`, 'invalid_input');
+    }
+    cutoff = Date.now() - seconds * 1000;
+  }
+  const now = Date.now();
+  return ledger.filter((entry) => ledgerStatus(entry, now) === 'active' && Date.parse(entry.createdAt) < cutoff);
+}
+
+export async function runRevoke(options: RevokeOptions = {}): Promise<void> {
+  let ledger: LedgerEntry[];
+  try {
+    ledger = await readLedger();
+  } catch (error) {
+    exitWithError(error, 'Failed to read the ledger.');
+  }
+  const selected = selectEntries(ledger, options);
+  const config = loadConfig(options);
+
+  const results: Array<{ id: string; label: string | null; outcome: LedgerOutcome | 'pending' | 'failed'; error?: string }> = [];
+  const outcomes = new Map<string, LedgerOutcome>();
+  for (const entry of selected) {
+    const label = entry.label ?? null;
+    if (options.dryRun) {
+      results.push({ id: entry.id, label, outcome: 'pending' });
+      continue;
+    }
+    try {
+      await deleteStash(config, entry.id, entry.revokeCredential);
+      await deleteParts(config, entry.parts ?? []);
+      outcomes.set(entry.id, 'revoked');
+      results.push({ id: entry.id, label, outcome: 'revoked' });
+    } catch (error: any) {
+      // Already gone (read, expired, deleted elsewhere) still counts as handled
+      const outcome = outcomeFromError(error);
+      if (outcome) {
+        // Parts may outlive a manifest that was deleted elsewhere or only partly read
+        await deleteParts(config, entry.parts ?? []);
+        outcomes.set(entry.id, outcome);
+        results.push({ id: entry.id, label, outcome });
+      } else {
+        results.push({ id: entry.id, label, outcome: 'failed', error: error?.message ?? String(error) });
+      }
+    }
+  }
+
+  if (outcomes.size) {
+    try {
+      await closeLedgerEntries(outcomes);
+    } catch (error: any) {
+      console.error(`Warning: could not update the ledger: ${error.message}`);
+    }
+  }
+
+  const failed = results.filter((result) => result.outcome === 'failed').length;
+  const revoked = results.filter((result) => result.outcome === 'revoked').length;
+  const summary = options.dryRun
+    ? `Would revoke ${selected.length} active stash${selected.length === 1 ? '' : 'es'}.`
+    : `Revoked ${revoked}, already gone ${results.length - revoked - failed}, failed ${failed}.`;
+  const labelWidth = Math.max(1, ...results.map((r) => (r.label ?? '-').length));
+  const text = [
+    ...results.map((r) => `${r.id}  ${(r.label ?? '-').padEnd(labelWidth)}  ${r.outcome}${r.error ? ` (${r.error})` : ''}`),
+    summary
+  ].join('\n');
+  writeResult({ status: options.dryRun ? 'dry-run' : 'revoked', results, failed }, text);
+
+  if (failed) {
+    // Run again to retry; the ledger still lists the failures as active
+    if (!isJsonOutput()) console.error(`${failed} could not be revoked; run the command again to retry.`);
+    process.exitCode = EXIT_CODES.network_error;
+  }
+}
@@ -0,0 +1,73 @@
+import { Command } from 'commander';
+import { resolve } from 'path';
+import { createLocalServer, FileStore, MemoryStore, StashStore } from '../server/local-server';
+import { exitWithMessage, writeResult } from '../utils/output';
+import { DEFAULT_LOCAL_HOST, DEFAULT_LOCAL_PORT } from '../utils/constants';
+
+export interface ServeOptions {
+  local?: boolean;
+  host: string;
+  port: string;
+  dataDir?: string;
+}
+
+export function createServeCommand(): Command {
+  return new Command('serve')
+    .description('Run a local stand-in for the stash API (for demos and tests)')
+    .option('--local', 'Serve the API locally (required)')
+    .option('--host <host>', 'Interface to bind', DEFAULT_LOCAL_HOST)
+    .option('--port <port>', 'Port to listen on (0 picks a free port)', String(DEFAULT_LOCAL_PORT))
+    .option('--data-dir <path>', 'Persist stashes as files in this directory (default: in memory)')
+    .addHelpText('after', `
+💡 Examples:
+   stasher serve --local
+   STASHED_API=http://127.0.0.1:${DEFAULT_LOCAL_PORT} enstash "secret"
+   stasher serve --local --port 9000 --data-dir ./.stashes
+    `)
+    .action((options: ServeOptions) => runServe(options));
+}
+
+export async function runServe(options: ServeOptions): Promise<void> {
+  if (!options.local) {
+    exitWithMessage('Only local mode is supported. Use: stasher serve --local', 'invalid_input');
+  }
+  const port = Number(options.port);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    exitWithMessage(`Invalid port: ${options.port}`, 'invalid_input');
+  }
+
+  let store: StashStore;
+  if (options.dataDir) {
+    const fileStore = new FileStore(resolve(options.dataDir));
+    try {
+      await fileStore.init();
+    } catch (error: any) {
+      exitWithMessage(`Cannot use data directory: ${error.message}`, 'invalid_input');
+    }
+    store = fileStore;
+  } else {
+    store = new MemoryStore();
+  }
+
+  const server = createLocalServer(store);
+  await new Promise<void>((resolveListen) => {
+    server.once('error', (error: any) => exitWithMessage(`Failed to start server: ${error.message}`));
+    server.listen(port, options.host, resolveListen);
+  });
+
+  const address = server.address();
+  const boundPort = typeof address === 'object' && address ? address.port : port;
+  const url = `http://${options.host.includes(':') ? `[${options.host}]` : options.host}:${boundPort}`;
+  writeResult(
+    { status: 'listening', url, storage: options.dataDir ? 'disk' : 'memory' },
+    `Local stash server listening on ${url} (${options.dataDir ? `data in ${options.dataDir}` : 'in memory'})\n` +
+    `Point the CLI at it with: export STASHED_API=${url}`
+  );
+
+  // Shut down cleanly on Ctrl+C / SIGTERM
+  await new Promise<void>((resolveClose) => {
+    const stop = () => server.close(() => resolveClose());
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+  });
+}
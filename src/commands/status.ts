@@ -0,0 +1,85 @@
+import { Command } from 'commander';
+import { loadConfig, ConfigOptions } from '../utils/config';
+import { ErrorCode, exitWithError, exitWithMessage, writeResult } from '../utils/output';
+import { fetchStatus, StashState, StashStatus } from '../utils/api';
+import { isShareToken } from '../utils/crypto';
+import { noteGoneInLedger } from '../utils/ledger';
+import { extractUUID, parseRevokeToken, validateUUID } from '../utils/validation';
+
+// Exit codes for stashes that can no longer be read (active exits 0)
+const STATE_ERRORS: Record<Exclude<StashState, 'active'>, ErrorCode> = {
+  consumed: 'consumed',
+  expired: 'expired',
+  revoked: 'not_found'
+};
+
+export function createStatusCommand(): Command {
+  return new Command('status')
+    .description('Check whether a stash is still waiting to be read, without consuming it')
+    .usage('<uuid | token | link>')
+    .argument('<token>', 'Stash uuid, full token, share link, revoke token or share token')
+    .addHelpText('after', `
+💡 Exit codes: 0 active, 3 not found or revoked, 4 consumed or expired, 5 network error
+   stasher status "a1b2c3d4-e5f6-7890-abcd-ef1234567890"
+   stasher --json status "uuid:base64key"
+    `)
+    .action((token: string, _options, command: Command) => runStatus(token, command.optsWithGlobals()));
+}
+
+/**
+ * Any of the token forms we print carries the stash id; nothing else is needed
+ */
+function resolveStashId(rawInput: string): string {
+  const revoke = parseRevokeToken(rawInput);
+  if (revoke) {
+    return revoke.id.toLowerCase();
+  }
+  if (isShareToken(rawInput)) {
+    const id = rawInput.trim().split(':')[1] ?? '';
+    if (validateUUID(id)) return id.toLowerCase();
+  }
+  const id = extractUUID(rawInput);
+  if (!id || !validateUUID(id)) {
+    exitWithMessage('Invalid format. Expected a stash uuid, token or link', 'invalid_input');
+  }
+  return id.toLowerCase();
+}
+
+/**
+ * Keep the local ledger in step when a stash we created turns out to be gone
+ */
+async function noteInLedger(status: StashStatus): Promise<void> {
+  if (status.status === 'active') {
+    return;
+  }
+  await noteGoneInLedger(new Map([[status.id, status.status]]));
+}
+
+export async function runStatus(rawInput: string, options: ConfigOptions = {}): Promise<void> {
+  const id = resolveStashId(rawInput);
+  const config = loadConfig(options);
+
+  let status: StashStatus;
+  try {
+    status = await fetchStatus(config, id);
+  } catch (error) {
+    exitWithError(error, 'Failed to check stash. Please try again.', 'network_error');
+  }
+  await noteInLedger(status);
+
+  const details = {
+    id,
+    state: status.status,
+    remainingReads: status.remainingReads ?? null,
+    createdAt: status.createdAt ?? null,
+    expiresAt: status.expiresAt ?? null
+  };
+  if (status.status !== 'active') {
+    exitWithMessage(`Stash ${id} has been ${status.status}.`, STATE_ERRORS[status.status], details);
+  }
+
+  const reads = details.remainingReads === null ? ''
+    : `, ${details.remainingReads} read${details.remainingReads === 1 ? '' : 's'} remaining`;
+  const expiry = details.expiresAt ? `, expires at ${details.expiresAt}` : '';
+  writeResult(details, `Stash ${id} is active${reads}${expiry}.`);
+}
@@ -1,94 +1,150 @@
 import { Command } from 'commander';
-import { loadEnvConfig } from '../utils/config';
-import { extractUUID, validateUUID } from '../utils/validation';
+import { loadConfig, ConfigOptions } from '../utils/config';
+import { exitWithError, exitWithMessage, writeResult } from '../utils/output';
+import { deleteStash } from '../utils/api';
+import { deleteParts } from '../utils/chunking';
+import {
+  closeLedgerEntries,
+  ledgerStatus,
+  outcomeFromError,
+  readLedger,
+  LedgerEntry,
+  LedgerOutcome
+} from '../utils/ledger';
+import { decodeStashToken, deriveRevokeCredential, zeroBuffer } from '../utils/crypto';
+import {
+  extractUUID,
+  normalizeStashInput,
+  parseRevokeToken,
+  validateAndParseStashFormat,
+  validateUUID
+} from '../utils/validation';
 
-/**
- * Exit codes for CI/script automation:
- * 0 = success
- * 1 = general error
- * 2 = invalid input format 
- * 3 = stash not found
- * 4 = stash expired or already consumed
- * 5 = network/timeout error
- * 6 = decryption/authentication failure
- */
-function exitWithMessage(msg: string, exitCode: number = 1): never {
-  console.error(msg);
-  process.exit(exitCode);
+export interface UnstashOptions extends ConfigOptions {
+  label?: string;
 }
 
-export async function runUnstash(): Promise<void> {
-  const program = new Command();
-
-  program
-    .name('stasher')
+export function createUnstashCommand(): Command {
+  return new Command('unstash')
     .description('Manually delete a one-time secret before it’s accessed')
-    .usage('<uuid[:key]>')
-    .argument('<token>', 'Stash uuid or full token in the format uuid:base64key')
-    .version('1.0.0')
+    .usage('<token | revoke-token | uuid> | --label <label>')
+    .argument('[token]', 'Full token (uuid:base64key), share link, revoke token, or bare uuid')
+    .option('--label <label>', 'Delete the copy created for this label by enstash --recipients')
     .addHelpText('after', `
 💡 Examples:
-  unstash "a1b2c3d4-e5f6-7890-abcd-ef1234567890"
   unstash "a1b2c3d4-e5f6-7890-abcd-ef1234567890:base64key"
+  stasher unstash "revoke:a1b2c3d4-e5f6-7890-abcd-ef1234567890:credential"
+  unstash --label bob
+  unstash "a1b2c3d4-e5f6-7890-abcd-ef1234567890"   (stashes you created here, or servers that don't enforce revocation)
     `)
-    .parse();
-
-  const rawInput = program.args[0];
+    .action((token: string | undefined, _options, command: Command) => runUnstash(token, command.optsWithGlobals()));
+}
 
-  if (!rawInput) {
-    exitWithMessage('No stash token or uuid provided.', 2); // Invalid input
+/**
+ * Find the single live ledger entry recorded under a label
+ */
+function findLabelledStash(ledger: LedgerEntry[], label: string): LedgerEntry {
+  const matches = ledger.filter((entry) => entry.label === label && ledgerStatus(entry) === 'active');
+  if (!matches.length) {
+    exitWithMessage(`No active stash labelled "${label}" in the local ledger.`, 'not_found');
   }
-
-  // Allow either full token or just the UUID
-  const uuid = extractUUID(rawInput);
-  if (!uuid || !validateUUID(uuid)) {
-    exitWithMessage('Invalid format. Expected uuid or stash token', 2); // Invalid input
+  if (matches.length > 1) {
+    exitWithMessage(
+      `Several stashes are labelled "${label}" (${matches.map((entry) => entry.id).join(', ')}); pass the id instead.`,
+      'invalid_input'
+    );
   }
+  return matches[0];
+}
 
-  try {
-    const config = loadEnvConfig();
+/**
+ * Remember the fate of a stash we created, so stasher list stops showing it as active
+ */
+async function noteOutcome(ledger: LedgerEntry[], id: string, outcome: LedgerOutcome): Promise<void> {
+  if (ledger.some((entry) => entry.id === id)) {
+    await closeLedgerEntries(new Map([[id, outcome]])).catch(() => undefined);
+  }
+}
 
-    // Use fetch with retry for network resilience
-    const { fetchWithRetry } = await import('../utils/fetch-retry');
-    
-    // Time-bound the request to prevent hanging
-    const ac = new AbortController();
-    const timeout = setTimeout(() => ac.abort(), 10_000); // 10s
-    const response = await fetchWithRetry(`${config.apiBaseUrl}/unstash/${uuid}`, {
-      method: 'DELETE',
-      signal: ac.signal,
-    });
-    clearTimeout(timeout);
+/**
+ * Work out the stash id and, where the input carries one, the revoke credential
+ * Full tokens and links derive it from the key; revoke tokens carry it directly
+ */
+function resolveRevokeTarget(rawInput: string): { id: string; credential?: string } {
+  const revoke = parseRevokeToken(rawInput);
+  if (revoke) {
+    return revoke;
+  }
 
-    if (response.status === 404) {
-      exitWithMessage('Stash not found or already deleted.', 3); // Not found
+  const token = normalizeStashInput(rawInput);
+  if (token.includes(':')) {
+    const parsed = validateAndParseStashFormat(token);
+    if (!parsed.success) {
+      exitWithMessage(`Invalid stash token: ${parsed.error}`, 'invalid_input');
     }
-
-    if (response.status === 410) {
-      const { error } = await response.json().catch(() => ({}));
-      const msg = (error === 'Expired') ? 'This stash has expired.' : 'This stash has already been consumed.';
-      exitWithMessage(msg, 4); // Expired/consumed
+    let key: Buffer | undefined;
+    try {
+      let id: string;
+      ({ id, key } = decodeStashToken(token));
+      return { id, credential: deriveRevokeCredential(id, key) };
+    } catch (error: any) {
+      exitWithMessage(`Invalid stash token: ${error.message}`, 'invalid_input');
+    } finally {
+      zeroBuffer(key);
     }
+  }
 
-    if (!response.ok) {
-      exitWithMessage(`Failed to delete stash: HTTP ${response.status}`, 5); // Network error
-    }
+  // Bare uuid: only accepted by servers that don't enforce revocation
+  const id = extractUUID(token);
+  if (!id || !validateUUID(id)) {
+    exitWithMessage('Invalid format. Expected a stash token, revoke token or uuid', 'invalid_input');
+  }
+  return { id };
+}
 
-    // Guard JSON parsing - don't crash if server returns HTML on errors
-    let result;
-    try {
-      result = await response.json();
-    } catch (e) {
-      exitWithMessage('Server returned invalid response format.', 5); // Network error
-    }
-    
-    process.stdout.write(`Stash ${result.id} has been permanently deleted.\n`);
+export async function runUnstash(rawInput: string | undefined, options: UnstashOptions = {}): Promise<void> {
+  if (!rawInput && options.label === undefined) {
+    exitWithMessage('No stash token or uuid provided.', 'invalid_input');
+  }
+  if (rawInput && options.label !== undefined) {
+    exitWithMessage('Pass either a stash token or --label, not both.', 'invalid_input');
+  }
+
+  let ledger: LedgerEntry[];
+  try {
+    ledger = await readLedger();
+  } catch (error) {
+    // Only --label depends on the ledger; everything else works without it
+    if (options.label !== undefined) exitWithError(error, 'Failed to read the ledger.');
+    ledger = [];
+  }
+
+  let target: { id: string; credential?: string };
+  if (options.label !== undefined) {
+    const entry = findLabelledStash(ledger, options.label);
+    target = { id: entry.id, credential: entry.revokeCredential };
+  } else {
+    target = resolveRevokeTarget(rawInput!);
+    // A bare uuid of a stash created here can still present its credential
+    const id = target.id.toLowerCase();
+    target.credential ??= ledger.find((entry) => entry.id === id)?.revokeCredential;
+  }
+  const id = target.id.toLowerCase();
+  const config = loadConfig(options);
+  // A chunked stash created here also has parts to delete; other tokens don't reveal them
+  const parts = ledger.find((entry) => entry.id === id)?.parts ?? [];
 
-  } catch (error: any) {
-    // Handle network/timeout errors
-    if (error?.name === 'AbortError') {
-      exitWithMessage('Request timed out after 10 seconds.', 5); // Network error
+  try {
+    const result = await deleteStash(config, id, target.credential);
+    await deleteParts(config, parts);
+    await noteOutcome(ledger, id, 'revoked');
+    writeResult({ status: 'deleted', id: result.id }, `Stash ${result.id} has been permanently deleted.`);
+  } catch (error) {
+    const outcome = outcomeFromError(error);
+    if (outcome) {
+      await deleteParts(config, parts);
+      await noteOutcome(ledger, id, outcome);
     }
-    exitWithMessage('Failed to delete stash. Please try again.', 5); // Network error (general)
+    exitWithError(error, 'Failed to delete stash. Please try again.', 'network_error');
   }
 }
@@ -1,28 +1,100 @@
 #!/usr/bin/env node
 
 import { basename } from 'path';
-import { runEnstash } from './commands/enstash';
-import { runDestash } from './commands/destash';
-import { runUnstash } from './commands/unstash';
+import { Command, CommanderError } from 'commander';
+import { createEnstashCommand } from './commands/enstash';
+import { createDestashCommand } from './commands/destash';
+import { createUnstashCommand } from './commands/unstash';
+import { createConfigCommand } from './commands/config';
+import { createServeCommand } from './commands/serve';
+import { createKeysCommand } from './commands/keys';
+import { createRequestCommand } from './commands/request';
+import { createListCommand } from './commands/list';
+import { createRevokeCommand } from './commands/revoke';
+import { createStatusCommand } from './commands/status';
+import { loadConfig } from './utils/config';
+import { exitWithError, exitWithMessage, isJsonOutput, setJsonOutput } from './utils/output';
+import { getVersion } from './utils/version';
+
+// Legacy bin names that map straight onto a subcommand
+const COMMAND_ALIASES = ['enstash', 'destash', 'unstash'];
+
+function createProgram(): Command {
+    const program = new Command()
+        .name('stasher')
+        .description('Secure secret sharing with burn-after-read')
+        .version(getVersion())
+        .option('--json', 'Print one JSON object (result or error) instead of text')
+        .option('--config <path>', 'Config file (default: $XDG_CONFIG_HOME/stasher/config.yaml)')
+        .option('--profile <name>', 'Config profile to use (or STASHER_PROFILE)')
+        .addCommand(createEnstashCommand())
+        .addCommand(createDestashCommand())
+        .addCommand(createUnstashCommand())
+        .addCommand(createConfigCommand())
+        .addCommand(createServeCommand())
+        .addCommand(createKeysCommand())
+        .addCommand(createRequestCommand())
+        .addCommand(createListCommand())
+        .addCommand(createRevokeCommand())
+        .addCommand(createStatusCommand());
+
+    // Load config once up front so file/profile errors surface as invalid input
+    // before any command runs, and so a profile can default the output format
+    program.hook('preAction', (_program, actionCommand) => {
+        try {
+            const config = loadConfig(actionCommand.optsWithGlobals());
+            setJsonOutput(config.output === 'json');
+        } catch (error: any) {
+            exitWithMessage(error.message, 'invalid_input');
+        }
+    });
+
+    // Route usage errors through our own error reporting (exit code 2, JSON-aware)
+    for (const command of [program, ...program.commands, ...program.commands.flatMap((c) => c.commands)]) {
+        command
+            .exitOverride()
+            .configureOutput({
+                writeErr: (str) => {
+                    if (!isJsonOutput()) process.stderr.write(str);
+                }
+            });
+    }
+    return program;
+}
 
 async function main(): Promise<void> {
+    const program = createProgram();
+    const args = process.argv.slice(2);
+
+    // `enstash ...` behaves exactly like `stasher enstash ...`
     const scriptName = basename(process.argv[1]);
-    if (scriptName.includes('enstash')) {
-        return runEnstash();
-    }
-    else if (scriptName.includes('destash')) {
-        return runDestash();
-    }
-    else if (scriptName.includes('unstash')) {
-        return runUnstash();
+    const alias = COMMAND_ALIASES.find((name) => scriptName.includes(name));
+    if (alias && !['-V', '--version'].includes(args[0])) {
+        args.unshift(alias);
     }
-    else {
-        console.error('This utitility can be used with the following commands "enstash", "destash", or "unstash commands"');
-        process.exit(1);
+
+    // Decided before parsing so that usage errors are reported as JSON too
+    // (words after `--` belong to a command run by destash, not to us)
+    const dash = args.indexOf('--');
+    setJsonOutput((dash === -1 ? args : args.slice(0, dash)).includes('--json'));
+
+    try {
+        await program.parseAsync(args, { from: 'user' });
+    } catch (error) {
+        if (error instanceof CommanderError) {
+            if (error.exitCode === 0) {
+                process.exit(0); // --help / --version
+            }
+            if (isJsonOutput()) {
+                exitWithMessage(error.message.replace(/^error: /, ''), 'invalid_input');
+            }
+            process.exit(2); // Commander already printed the message
+        }
+        throw error;
     }
 }
 
 main().catch((error) => {
-    console.error('Unexpected error:', error);
-    process.exit(1);
+    // CliErrors thrown past a command keep their code; anything else is a bug
+    exitWithError(error, `Unexpected error: ${error?.message ?? error}`);
 });
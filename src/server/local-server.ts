@@ -0,0 +1,357 @@
+/**
+ * Local stand-in for the stash API (/enstash, /destash/:id, /unstash/:id, /status/:id)
+ * Reproduces burn-after-read, TTL expiry, 404 vs 410 semantics and creator-only
+ * revocation for air-gapped demos and integration tests. Not intended for production use.
+ */
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { validateUUID } from '../utils/validation';
+import { hashRevokeCredential } from '../utils/crypto';
+import {
+  MAX_PAYLOAD_SIZE,
+  DEFAULT_TTL_SECONDS,
+  MIN_TTL_SECONDS,
+  MAX_TTL_SECONDS,
+  MAX_READS_LIMIT,
+  TOMBSTONE_RETENTION_MS,
+  SWEEP_INTERVAL_MS,
+  REVOKE_HEADER
+} from '../utils/constants';
+
+export type StashState = 'active' | 'consumed' | 'deleted';
+
+export interface StashRecord {
+  id: string;
+  envelope: Record<string, unknown>; // Stored opaque; the server never sees keys
+  createdAt: number;
+  expiresAt: number;
+  remainingReads: number;
+  state: StashState;
+  revokeHash?: string; // Hash of the credential unstash must present; absent for legacy clients
+}
+
+export interface StashStore {
+  get(id: string): Promise<StashRecord | undefined>;
+  put(record: StashRecord): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<StashRecord[]>;
+}
+
+// Request fields that control the stash rather than being part of the envelope
+const CONTROL_FIELDS = ['id', 'ttl', 'maxReads', 'revokeHash'];
+// base64url SHA-256, as produced by hashRevokeCredential()
+const REVOKE_HASH_REGEX = /^[A-Za-z0-9_-]{43}$/;
+
+/**
+ * In-memory store; everything is lost when the process exits
+ */
+export class MemoryStore implements StashStore {
+  private readonly records = new Map<string, StashRecord>();
+
+  async get(id: string): Promise<StashRecord | undefined> {
+    return this.records.get(id);
+  }
+
+  async put(record: StashRecord): Promise<void> {
+    this.records.set(record.id, record);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+
+  async list(): Promise<StashRecord[]> {
+    return [...this.records.values()];
+  }
+}
+
+/**
+ * On-disk store: one JSON file per stash, owner-readable only
+ */
+export class FileStore implements StashStore {
+  constructor(private readonly dir: string) {}
+
+  async init(): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true, mode: 0o700 });
+  }
+
+  private path(id: string): string {
+    // ids are validated as UUIDs before reaching the store, so no traversal
+    return join(this.dir, `${id}.json`);
+  }
+
+  async get(id: string): Promise<StashRecord | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.path(id), 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  async put(record: StashRecord): Promise<void> {
+    // Write-then-rename so a crash never leaves a half-written record
+    const tmp = `${this.path(record.id)}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(record), { mode: 0o600 });
+    await fs.rename(tmp, this.path(record.id));
+  }
+
+  async delete(id: string): Promise<void> {
+    await fs.rm(this.path(id), { force: true });
+  }
+
+  async list(): Promise<StashRecord[]> {
+    const files = (await fs.readdir(this.dir)).filter((f) => f.endsWith('.json'));
+    const records = await Promise.all(files.map((f) => this.get(f.slice(0, -'.json'.length))));
+    return records.filter((r): r is StashRecord => r !== undefined);
+  }
+}
+
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  const data = JSON.stringify(body);
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Content-Length': Buffer.byteLength(data),
+    'Cache-Control': 'no-store'
+  });
+  res.end(data);
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for await (const chunk of req) {
+    total += chunk.length;
+    if (total > MAX_PAYLOAD_SIZE) {
+      throw new HttpError(413, 'Payload too large');
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks, total).toString('utf8');
+}
+
+function readBoundedInteger(value: unknown, name: string, min: number, max: number, fallback: number): number {
+  if (value === undefined || value === null) {
+    return fallback;
+  }
+  if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+    throw new HttpError(400, `${name} must be an integer between ${min} and ${max}`);
+  }
+  return value as number;
+}
+
+/**
+ * Look up a stash and classify it, purging records whose retention has lapsed
+ * Expired and consumed stashes answer 410 until purged, then 404
+ */
+async function lookup(store: StashStore, id: string, now: number): Promise<StashRecord> {
+  if (!validateUUID(id)) {
+    throw new HttpError(404, 'Not found');
+  }
+  const record = await store.get(id);
+  if (!record) {
+    throw new HttpError(404, 'Not found');
+  }
+  if (now >= record.expiresAt + TOMBSTONE_RETENTION_MS) {
+    await store.delete(id);
+    throw new HttpError(404, 'Not found');
+  }
+  if (record.state === 'deleted') {
+    throw new HttpError(404, 'Not found');
+  }
+  if (now >= record.expiresAt) {
+    throw new HttpError(410, 'Expired');
+  }
+  if (record.state === 'consumed') {
+    throw new HttpError(410, 'Consumed');
+  }
+  return record;
+}
+
+/**
+ * Turn a record into a tombstone: drop the ciphertext, keep the state
+ */
+function tombstone(record: StashRecord, state: StashState): StashRecord {
+  return { ...record, envelope: {}, remainingReads: 0, state };
+}
+
+async function handleEnstash(store: StashStore, req: IncomingMessage, now: number): Promise<[number, unknown]> {
+  let body: any;
+  try {
+    body = JSON.parse(await readBody(req));
+  } catch (error) {
+    if (error instanceof HttpError) throw error;
+    throw new HttpError(400, 'Body must be JSON');
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new HttpError(400, 'Body must be a JSON object');
+  }
+  for (const field of ['iv', 'tag', 'ciphertext']) {
+    if (typeof body[field] !== 'string' || !body[field]) {
+      throw new HttpError(400, `Missing required field: ${field}`);
+    }
+  }
+
+  const id = body.id ?? randomUUID();
+  if (typeof id !== 'string' || !validateUUID(id)) {
+    throw new HttpError(400, 'id must be a UUID v4');
+  }
+  if (await store.get(id)) {
+    throw new HttpError(409, 'Stash id already in use');
+  }
+  const ttl = readBoundedInteger(body.ttl, 'ttl', MIN_TTL_SECONDS, MAX_TTL_SECONDS, DEFAULT_TTL_SECONDS);
+  const maxReads = readBoundedInteger(body.maxReads, 'maxReads', 1, MAX_READS_LIMIT, 1);
+  const revokeHash = body.revokeHash ?? undefined;
+  if (revokeHash !== undefined && (typeof revokeHash !== 'string' || !REVOKE_HASH_REGEX.test(revokeHash))) {
+    throw new HttpError(400, 'revokeHash must be a base64url SHA-256 digest');
+  }
+
+  const envelope: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(body)) {
+    if (!CONTROL_FIELDS.includes(name)) envelope[name] = value;
+  }
+
+  const record: StashRecord = {
+    id,
+    envelope,
+    createdAt: now,
+    expiresAt: now + ttl * 1000,
+    remainingReads: maxReads,
+    state: 'active',
+    ...(revokeHash ? { revokeHash } : {})
+  };
+  await store.put(record);
+  return [201, { id, expiresAt: new Date(record.expiresAt).toISOString(), maxReads }];
+}
+
+async function handleDestash(store: StashStore, id: string, now: number): Promise<[number, unknown]> {
+  const record = await lookup(store, id, now);
+  const remainingReads = record.remainingReads - 1;
+  // Burn before responding so a crash can never hand out the same read twice
+  await store.put(remainingReads > 0 ? { ...record, remainingReads } : tombstone(record, 'consumed'));
+  return [200, { ...record.envelope, remainingReads }];
+}
+
+/**
+ * Report a stash's state without consuming a read
+ * Known records answer 200 with their state until purged; unknown ids answer 404
+ */
+async function handleStatus(store: StashStore, id: string, now: number): Promise<[number, unknown]> {
+  const record = validateUUID(id) ? await store.get(id) : undefined;
+  if (!record) {
+    throw new HttpError(404, 'Not found');
+  }
+  if (now >= record.expiresAt + TOMBSTONE_RETENTION_MS) {
+    await store.delete(id);
+    throw new HttpError(404, 'Not found');
+  }
+  // Same precedence as lookup(): deleted, then expired, then consumed
+  const status = record.state === 'deleted' ? 'revoked'
+    : now >= record.expiresAt ? 'expired'
+    : record.state === 'consumed' ? 'consumed'
+    : 'active';
+  return [200, {
+    id,
+    status,
+    createdAt: new Date(record.createdAt).toISOString(),
+    expiresAt: new Date(record.expiresAt).toISOString(),
+    remainingReads: status === 'active' ? record.remainingReads : 0
+  }];
+}
+
+/**
+ * Only the creator (or whoever holds the full token) may delete a stash that registered a revoke hash
+ */
+function checkRevokeCredential(record: StashRecord, req: IncomingMessage): void {
+  if (!record.revokeHash) {
+    return;
+  }
+  const credential = req.headers[REVOKE_HEADER.toLowerCase()];
+  if (typeof credential !== 'string' || !credential) {
+    throw new HttpError(401, 'Revoke credential required');
+  }
+  const presented = Buffer.from(hashRevokeCredential(credential));
+  const expected = Buffer.from(record.revokeHash);
+  if (presented.length !== expected.length || !timingSafeEqual(presented, expected)) {
+    throw new HttpError(403, 'Revoke credential rejected');
+  }
+}
+
+async function handleUnstash(store: StashStore, id: string, req: IncomingMessage, now: number): Promise<[number, unknown]> {
+  const record = await lookup(store, id, now);
+  checkRevokeCredential(record, req);
+  await store.put(tombstone(record, 'deleted'));
+  return [200, { id }];
+}
+
+/**
+ * Remove records past their retention window (proactive cleanup)
+ */
+export async function sweepStore(store: StashStore, now: number = Date.now()): Promise<number> {
+  let removed = 0;
+  for (const record of await store.list()) {
+    if (now >= record.expiresAt + TOMBSTONE_RETENTION_MS) {
+      await store.delete(record.id);
+      removed++;
+    } else if (now >= record.expiresAt && Object.keys(record.envelope).length) {
+      // Expired but still answering 410: drop the ciphertext early
+      await store.put(tombstone(record, record.state));
+    }
+  }
+  return removed;
+}
+
+async function handleRequest(store: StashStore, req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const now = Date.now();
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const [, route, id, ...rest] = url.pathname.split('/');
+
+  try {
+    let result: [number, unknown] | undefined;
+    if (req.method === 'POST' && route === 'enstash' && id === undefined) {
+      result = await handleEnstash(store, req, now);
+    } else if (req.method === 'GET' && route === 'destash' && id && !rest.length) {
+      result = await handleDestash(store, id, now);
+    } else if (req.method === 'GET' && route === 'status' && id && !rest.length) {
+      result = await handleStatus(store, id, now);
+    } else if (req.method === 'DELETE' && route === 'unstash' && id && !rest.length) {
+      result = await handleUnstash(store, id, req, now);
+    }
+    if (!result) {
+      throw new HttpError(404, 'Not found');
+    }
+    sendJson(res, ...result);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.message });
+    } else {
+      sendJson(res, 500, { error: 'Internal error' });
+    }
+  }
+}
+
+/**
+ * Create the HTTP server; call listen() on the result
+ */
+export function createLocalServer(store: StashStore): Server {
+  // Handle one request at a time so two concurrent reads can't both see a live stash
+  let queue: Promise<unknown> = Promise.resolve();
+  const enqueue = (task: () => Promise<unknown>) => {
+    queue = queue.then(task).catch(() => undefined);
+  };
+
+  const server = createServer((req, res) => enqueue(() => handleRequest(store, req, res)));
+
+  const sweeper = setInterval(() => enqueue(() => sweepStore(store)), SWEEP_INTERVAL_MS);
+  sweeper.unref();
+  server.on('close', () => clearInterval(sweeper));
+
+  return server;
+}
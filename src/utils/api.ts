@@ -0,0 +1,173 @@
+/**
+ * HTTP client for the stash API shared by all commands
+ * Maps HTTP statuses onto CliError codes (see output.ts for the exit code table)
+ */
+import { Config } from './config';
+import { encodeEnstashRequest, hashRevokeCredential, PayloadStructure } from './crypto';
+import { fetchWithRetry } from './fetch-retry';
+import { CliError } from './output';
+import { API_PROTOCOL_VERSION, MAX_PAYLOAD_SIZE, PROTOCOL_HEADER, REQUEST_TIMEOUT, REVOKE_HEADER } from './constants';
+
+export type StashState = 'active' | 'consumed' | 'expired' | 'revoked';
+
+export interface StashStatus {
+  id: string;
+  status: StashState;
+  createdAt?: string;
+  expiresAt?: string;
+  remainingReads?: number;
+}
+
+export interface CreatedStash {
+  id: string;
+  expiresAt?: string;
+  maxReads?: number;
+}
+
+/**
+ * Perform one API request with retries and an overall timeout
+ * 404/410 become not_found/expired/consumed, 401/403 become forbidden; other failures become network_error
+ */
+async function request(config: Config, path: string, init: RequestInit, notFoundMsg: string): Promise<Response> {
+  // Time-bound the request (including retries) to prevent hanging
+  const ac = new AbortController();
+  const timeout = setTimeout(() => ac.abort(), REQUEST_TIMEOUT);
+
+  let response: Response;
+  try {
+    response = await fetchWithRetry(`${config.apiBaseUrl}${path}`, { ...init, signal: ac.signal },
+      config.retry.maxRetries, config.retry.baseDelay);
+  } catch (error: any) {
+    if (error?.name === 'AbortError') {
+      throw new CliError(`Request timed out after ${REQUEST_TIMEOUT / 1000} seconds.`, 'network_error');
+    }
+    throw new CliError('Failed to reach the stash server. Please try again.', 'network_error');
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  if (response.status === 404) {
+    throw new CliError(notFoundMsg, 'not_found');
+  }
+
+  if (response.status === 410) {
+    const { error } = await response.json().catch(() => ({}));
+    if (error === 'Expired') {
+      throw new CliError('This stash has expired.', 'expired');
+    }
+    throw new CliError('This stash has already been consumed.', 'consumed');
+  }
+
+  if (response.status === 401) {
+    throw new CliError('The server requires a revoke credential: pass the full token or a revoke token.', 'forbidden');
+  }
+
+  if (response.status === 403) {
+    throw new CliError('The revoke credential was rejected for this stash.', 'forbidden');
+  }
+
+  return response;
+}
+
+/**
+ * Encode the /enstash body, refusing payloads the server would reject as too large
+ */
+function encodeCreateRequest(id: string, payload: PayloadStructure, revokeCredential?: string): string {
+  const revokeHash = revokeCredential !== undefined ? hashRevokeCredential(revokeCredential) : undefined;
+  const bodyStr = encodeEnstashRequest(id, payload, revokeHash);
+  const bodyBytes = Buffer.byteLength(bodyStr, 'utf8');
+  if (bodyBytes > MAX_PAYLOAD_SIZE) {
+    throw new CliError(`Encrypted payload is ${bodyBytes} bytes (limit is ${MAX_PAYLOAD_SIZE})`, 'invalid_input');
+  }
+  return bodyStr;
+}
+
+/**
+ * Check that a payload will fit in one stash before uploading anything it depends on
+ */
+export function checkPayloadSize(id: string, payload: PayloadStructure, revokeCredential?: string): void {
+  encodeCreateRequest(id, payload, revokeCredential);
+}
+
+/**
+ * Upload an encrypted payload under a client-assigned id (API protocol v2)
+ * The hash of revokeCredential is registered; unstash must later present the credential itself
+ */
+export async function createStash(config: Config, id: string, payload: PayloadStructure, revokeCredential?: string): Promise<CreatedStash> {
+  const bodyStr = encodeCreateRequest(id, payload, revokeCredential);
+
+  const response = await request(config, '/enstash', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', [PROTOCOL_HEADER]: String(API_PROTOCOL_VERSION) },
+    body: bodyStr
+  }, 'Stash endpoint not found.');
+
+  if (response.status === 409) {
+    throw new CliError('A stash with this id already exists.', 'invalid_input');
+  }
+  if (!response.ok) {
+    throw new CliError(`Failed to create stash: HTTP ${response.status}`, 'network_error');
+  }
+
+  const result = await response.json().catch(() => null) as CreatedStash | null;
+  if (!result || typeof result.id !== 'string') {
+    throw new CliError('Server returned invalid response format.', 'network_error');
+  }
+  if (result.id !== id) {
+    // Ciphertext is bound to the requested id; any other id could never be decrypted.
+    // The server registered our revoke hash (if it supports revocation), so the credential deletes its copy
+    const removed = await deleteStash(config, result.id, revokeCredential).then(() => true, () => false);
+    throw new CliError(
+      `The server stored the stash under its own id, so it does not support stasher API protocol v${API_PROTOCOL_VERSION} ` +
+      '(client-chosen ids). ' +
+      (removed ? 'The stash it created was deleted again.' : `The stash it created (${result.id}) could not be deleted; it expires on its own.`)
+    );
+  }
+  return result;
+}
+
+/**
+ * Fetch (and thereby consume one read of) a stash; returns the raw JSON body
+ */
+export async function fetchStash(config: Config, id: string): Promise<string> {
+  const response = await request(config, `/destash/${id}`, { method: 'GET' }, 'Stash not found or already retrieved.');
+  if (!response.ok) {
+    throw new CliError(`Failed to fetch stash: HTTP ${response.status}`, 'network_error');
+  }
+  return response.text();
+}
+
+/**
+ * Ask for a stash's metadata without consuming a read
+ */
+export async function fetchStatus(config: Config, id: string): Promise<StashStatus> {
+  const response = await request(config, `/status/${id}`, { method: 'GET' }, 'Stash not found.');
+  if (!response.ok) {
+    throw new CliError(`Failed to check stash: HTTP ${response.status}`, 'network_error');
+  }
+
+  const result = await response.json().catch(() => null);
+  if (!result || result.id !== id || !['active', 'consumed', 'expired', 'revoked'].includes(result.status)) {
+    throw new CliError('Server returned invalid response format.', 'network_error');
+  }
+  return result;
+}
+
+/**
+ * Delete a stash without reading it
+ * Without a credential this only works against servers that don't enforce revocation
+ */
+export async function deleteStash(config: Config, id: string, credential?: string): Promise<{ id: string }> {
+  const headers: Record<string, string> = credential ? { [REVOKE_HEADER]: credential } : {};
+  const response = await request(config, `/unstash/${id}`, { method: 'DELETE', headers }, 'Stash not found or already deleted.');
+  if (!response.ok) {
+    throw new CliError(`Failed to delete stash: HTTP ${response.status}`, 'network_error');
+  }
+
+  // Guard JSON parsing - don't crash if server returns HTML on errors
+  const result = await response.json().catch(() => null);
+  if (!result || typeof result.id !== 'string') {
+    throw new CliError('Server returned invalid response format.', 'network_error');
+  }
+  return result;
+}
@@ -0,0 +1,155 @@
+/**
+ * Multi-part stashes for secrets larger than MAX_SECRET_LENGTH
+ * The secret is split into parts, each uploaded as its own stash with its own key.
+ * A manifest stash (the one the token points to) lists part ids, keys and hashes,
+ * and every part's AAD names the manifest id and its position, so parts cannot be
+ * reordered, swapped or mixed between sets.
+ */
+import { createHash } from 'crypto';
+import { Config } from './config';
+import { deleteStash, fetchStash } from './api';
+import { decryptToBytes, parsePayload, zeroBuffer } from './crypto';
+import { CliError } from './output';
+import { validateUUID } from './validation';
+import { MAX_CHUNKED_SECRET_LENGTH } from './constants';
+
+export interface ManifestPart {
+  id: string;
+  key: string; // base64url part key
+  size: number;
+  sha256: string; // base64url digest of the part plaintext
+}
+
+/**
+ * What the creator keeps to delete a part again (never its key)
+ */
+export interface PartCredential {
+  id: string;
+  revokeCredential: string;
+}
+
+export interface StashManifest {
+  size: number;
+  sha256: string; // base64url digest of the reassembled plaintext
+  parts: ManifestPart[];
+}
+
+/**
+ * SHA-256 digest as unpadded base64url
+ */
+export function digest(data: Uint8Array): string {
+  return createHash('sha256').update(data).digest('base64url');
+}
+
+/**
+ * Split data into chunks of at most chunkSize bytes
+ * Returns views into the original buffer (no copies to zero)
+ */
+export function splitIntoChunks(data: Buffer, chunkSize: number): Buffer[] {
+  const chunks: Buffer[] = [];
+  for (let offset = 0; offset < data.length; offset += chunkSize) {
+    chunks.push(data.subarray(offset, offset + chunkSize));
+  }
+  return chunks;
+}
+
+/**
+ * Serialize a manifest for encryption
+ * NOTE: Result contains part keys; callers must zero it
+ */
+export function encodeManifest(manifest: StashManifest): Buffer {
+  return Buffer.from(JSON.stringify(manifest), 'utf8');
+}
+
+/**
+ * Parse and validate a decrypted manifest
+ */
+export function parseManifest(bytes: Buffer): StashManifest {
+  const parsed = JSON.parse(bytes.toString('utf8'));
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray(parsed.parts) || !parsed.parts.length) {
+    throw new Error('Manifest must list at least one part');
+  }
+  if (!Number.isInteger(parsed.size) || parsed.size <= 0 || parsed.size > MAX_CHUNKED_SECRET_LENGTH) {
+    throw new Error('Manifest size is out of range');
+  }
+  if (typeof parsed.sha256 !== 'string') {
+    throw new Error('Manifest is missing its digest');
+  }
+
+  let total = 0;
+  const parts: ManifestPart[] = parsed.parts.map((part: any, index: number) => {
+    if (!part || typeof part.id !== 'string' || !validateUUID(part.id) ||
+        typeof part.key !== 'string' || typeof part.sha256 !== 'string' ||
+        !Number.isInteger(part.size) || part.size <= 0) {
+      throw new Error(`Manifest part ${index + 1} is malformed`);
+    }
+    total += part.size;
+    return { id: part.id, key: part.key, size: part.size, sha256: part.sha256 };
+  });
+  if (total !== parsed.size) {
+    throw new Error('Manifest part sizes do not add up');
+  }
+
+  return { size: parsed.size, sha256: parsed.sha256, parts };
+}
+
+/**
+ * Fetch every part listed in a manifest, verify it belongs to this set, and reassemble
+ * NOTE: Caller must zero the returned buffer
+ */
+export async function reassembleParts(config: Config, manifestId: string, manifestBytes: Buffer): Promise<Buffer> {
+  const manifest = parseManifest(manifestBytes);
+  const count = manifest.parts.length;
+  const out = Buffer.alloc(manifest.size);
+  let offset = 0;
+
+  try {
+    for (const [index, part] of manifest.parts.entries()) {
+      let body: string;
+      try {
+        body = await fetchStash(config, part.id);
+      } catch (error) {
+        if (error instanceof CliError) {
+          throw new CliError(`Part ${index + 1} of ${count}: ${error.message}`, error.code);
+        }
+        throw error;
+      }
+
+      const payload = parsePayload(body);
+      const info = payload.meta?.part;
+      if (payload.type !== 'part' || !info || info.set !== manifestId || info.index !== index || info.count !== count) {
+        throw new CliError(`Part ${index + 1} of ${count} does not belong to this stash.`, 'decryption_failed');
+      }
+
+      const partKey = Buffer.from(part.key, 'base64url');
+      let bytes: Buffer | undefined;
+      try {
+        bytes = decryptToBytes(payload, partKey, { stashId: part.id });
+        if (bytes.length !== part.size || digest(bytes) !== part.sha256 || offset + bytes.length > out.length) {
+          throw new CliError(`Part ${index + 1} of ${count} failed verification.`, 'decryption_failed');
+        }
+        bytes.copy(out, offset);
+        offset += bytes.length;
+      } finally {
+        zeroBuffer(partKey);
+        zeroBuffer(bytes);
+      }
+    }
+
+    if (offset !== out.length || digest(out) !== manifest.sha256) {
+      throw new CliError('Reassembled secret failed verification.', 'decryption_failed');
+    }
+    return out;
+  } catch (error) {
+    zeroBuffer(out);
+    throw error;
+  }
+}
+
+/**
+ * Delete the parts behind a manifest, best effort
+ * Parts already read, expired or deleted are fine; the manifest is the caller's business
+ */
+export async function deleteParts(config: Config, parts: PartCredential[]): Promise<void> {
+  await Promise.all(parts.map(({ id, revokeCredential }) => deleteStash(config, id, revokeCredential).catch(() => undefined)));
+}
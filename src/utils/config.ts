@@ -1,37 +1,322 @@
 import { readFileSync } from 'fs';
-import { DEFAULT_API_BASE_URL } from './constants';
+import { homedir } from 'os';
+import { join } from 'path';
+import { load } from 'js-yaml';
+import {
+    DEFAULT_API_BASE_URL,
+    DEFAULT_PROFILE,
+    DEFAULT_MAX_RETRIES,
+    DEFAULT_RETRY_DELAY,
+    DEFAULT_ARGV_SECRET_POLICY,
+    OUTPUT_FORMATS,
+    ARGV_SECRET_POLICIES
+} from './constants';
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+export type ArgvSecretPolicy = typeof ARGV_SECRET_POLICIES[number];
+
+/**
+ * Where a resolved setting came from, highest precedence first
+ */
+export type ConfigSource = 'flag' | 'env' | 'dotenv' | 'file' | 'default';
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelay: number;
+}
 
 export interface Config {
   apiBaseUrl: string;
+  profile: string;
+  defaultTtl?: string;
+  retry: RetryPolicy;
+  output: OutputFormat;
+  argvSecrets: ArgvSecretPolicy;
+  configPath: string;
+  sources: Record<'apiBaseUrl' | 'profile' | 'defaultTtl' | 'retry' | 'output' | 'argvSecrets', ConfigSource>;
 }
 
-export function loadEnvConfig(): Config {
-    let apiBaseUrl = DEFAULT_API_BASE_URL;
-    
-    // Check environment variable first
-    if (process.env.STASHED_API) {
-        apiBaseUrl = process.env.STASHED_API;
+/**
+ * Global command-line options that influence configuration
+ */
+export interface ConfigOptions {
+  config?: string;
+  profile?: string;
+  json?: boolean;
+}
+
+interface ProfileSettings {
+  api?: string;
+  ttl?: string;
+  retry?: Partial<RetryPolicy>;
+  output?: OutputFormat;
+}
+
+interface ConfigFile {
+  defaultProfile?: string;
+  argvSecrets?: ArgvSecretPolicy; // Top-level so switching profiles cannot relax it
+  profiles: Record<string, ProfileSettings>;
+}
+
+/**
+ * Default config file location ($XDG_CONFIG_HOME/stasher/config.yaml)
+ */
+export function getConfigPath(): string {
+    const base = process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+    return join(base, 'stasher', 'config.yaml');
+}
+
+/**
+ * Directory for local state such as pending requests ($XDG_STATE_HOME/stasher)
+ */
+export function getStateDir(): string {
+    const base = process.env.XDG_STATE_HOME || join(homedir(), '.local', 'state');
+    return join(base, 'stasher');
+}
+
+/**
+ * One assignment in a dotenv file, with the (zero-based) lines it spans
+ */
+export interface DotEnvEntry {
+    name: string;
+    value: string;
+    firstLine: number;
+    lastLine: number;
+    exported: boolean; // Written as `export NAME=...`
+}
+
+const DOTENV_LINE_REGEX = /^(export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=[ \t]*(.*)$/;
+const DOTENV_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t' };
+
+/**
+ * Index of the quote that closes a quoted value, or -1 if it is not in text
+ * Double quotes honour backslash escapes; single quotes are literal
+ */
+function findClosingQuote(text: string, quote: string): number {
+    if (quote === "'") {
+        return text.indexOf("'");
     }
-    else {
-        // Try to load from .env file
-        try {
-            const envContent = readFileSync('.env', 'utf8');
-            const envLines = envContent.split('\n');
-            for (const line of envLines) {
-                const clean = line.trim();
-                if (!clean || clean.startsWith('#')) continue;
-                
-                const match = clean.match(/^STASHED_API\s*=\s*(.+)$/);
-                if (match) {
-                    apiBaseUrl = match[1].trim().replace(/["']/g, ''); // Remove quotes and trim
-                    break;
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\\') i++;
+        else if (text[i] === '"') return i;
+    }
+    return -1;
+}
+
+/**
+ * Parse dotenv content: NAME=value lines, optional `export `, # comments,
+ * 'literal' and "escaped" values (both may span lines), inline comments after unquoted values
+ * Throws on malformed lines, naming the line; lenient skips them instead (a quoted value
+ * that does not parse skips just its first line). Later assignments of a name win
+ */
+export function parseDotEnv(content: string, options: { lenient?: boolean } = {}): DotEnvEntry[] {
+    const lines = content.split(/\r?\n/);
+    const entries: DotEnvEntry[] = [];
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trimStart();
+        if (!line.trim() || line.startsWith('#')) continue;
+
+        const match = DOTENV_LINE_REGEX.exec(line);
+        if (!match) {
+            if (options.lenient) continue;
+            throw new Error(`Line ${i + 1}: expected NAME=value`);
+        }
+        const [, exported, name, rest] = match;
+        const firstLine = i;
+        let value: string;
+        if (rest.startsWith('"') || rest.startsWith("'")) {
+            const quote = rest[0];
+            let text = rest.slice(1);
+            let close = findClosingQuote(text, quote);
+            while (close === -1 && i + 1 < lines.length) {
+                text += '\n' + lines[++i];
+                close = findClosingQuote(text, quote);
+            }
+            if (close === -1) {
+                if (options.lenient) {
+                    i = firstLine;
+                    continue;
+                }
+                throw new Error(`Line ${firstLine + 1}: unterminated ${quote} quote`);
+            }
+            const trailing = text.slice(close + 1).trim();
+            if (trailing && !trailing.startsWith('#')) {
+                if (options.lenient) {
+                    i = firstLine;
+                    continue;
                 }
+                throw new Error(`Line ${i + 1}: unexpected text after the closing quote`);
             }
+            const raw = text.slice(0, close);
+            value = quote === '"' ? raw.replace(/\\(.)/gs, (_, c: string) => DOTENV_ESCAPES[c] ?? c) : raw;
+        }
+        else {
+            value = rest.startsWith('#') ? '' : rest.replace(/\s+#.*$/, '').trim();
+        }
+        entries.push({ name, value, firstLine, lastLine: i, exported: Boolean(exported) });
+    }
+    return entries;
+}
+
+/**
+ * Read a single key from a .env file in the current directory
+ * Lenient: a .env written for other tools may hold lines we don't understand,
+ * and those must not hide the key (and silently send secrets to the default server)
+ */
+function readDotEnvValue(name: string): string | undefined {
+    let content: string;
+    try {
+        content = readFileSync('.env', 'utf8');
+    }
+    catch {
+        // .env file doesn't exist or can't be read
+        return undefined;
+    }
+    return parseDotEnv(content, { lenient: true }).filter((entry) => entry.name === name).pop()?.value;
+}
+
+function validateProfile(name: string, raw: any): ProfileSettings {
+    if (!raw || typeof raw !== 'object') {
+        throw new Error(`Profile "${name}" must be a mapping`);
+    }
+    const profile: ProfileSettings = {};
+    if (raw.api !== undefined) {
+        if (typeof raw.api !== 'string' || !/^https?:\/\//.test(raw.api)) {
+            throw new Error(`Profile "${name}": api must be an http(s) URL`);
+        }
+        profile.api = raw.api;
+    }
+    if (raw.ttl !== undefined) {
+        profile.ttl = String(raw.ttl);
+    }
+    if (raw.retry !== undefined) {
+        const { maxRetries, baseDelay } = raw.retry ?? {};
+        if (maxRetries !== undefined && (!Number.isInteger(maxRetries) || maxRetries < 0 || maxRetries > 10)) {
+            throw new Error(`Profile "${name}": retry.maxRetries must be an integer between 0 and 10`);
+        }
+        if (baseDelay !== undefined && (!Number.isInteger(baseDelay) || baseDelay < 0)) {
+            throw new Error(`Profile "${name}": retry.baseDelay must be a non-negative integer (ms)`);
+        }
+        profile.retry = { maxRetries, baseDelay };
+    }
+    if (raw.output !== undefined) {
+        if (!(OUTPUT_FORMATS as readonly string[]).includes(raw.output)) {
+            throw new Error(`Profile "${name}": output must be one of ${OUTPUT_FORMATS.join(', ')}`);
         }
-        catch {
-            // .env file doesn't exist or can't be read, use default
+        profile.output = raw.output;
+    }
+    return profile;
+}
+
+/**
+ * Load and validate the YAML config file
+ * A missing file is only an error when it was named explicitly
+ */
+function readConfigFile(path: string, explicit: boolean): ConfigFile {
+    let content: string;
+    try {
+        content = readFileSync(path, 'utf8');
+    }
+    catch {
+        if (explicit) {
+            throw new Error(`Config file not found: ${path}`);
         }
+        return { profiles: {} };
+    }
+
+    let raw: any;
+    try {
+        raw = load(content) ?? {};
+    }
+    catch (error: any) {
+        throw new Error(`Invalid YAML in ${path}: ${error.message}`);
+    }
+    if (typeof raw !== 'object') {
+        throw new Error(`Config file ${path} must contain a mapping`);
+    }
+
+    if (raw.argvSecrets !== undefined && !(ARGV_SECRET_POLICIES as readonly string[]).includes(raw.argvSecrets)) {
+        throw new Error(`Config file ${path}: argvSecrets must be one of ${ARGV_SECRET_POLICIES.join(', ')}`);
     }
-    
-    return { apiBaseUrl };
+
+    const profiles: Record<string, ProfileSettings> = {};
+    for (const [name, settings] of Object.entries(raw.profiles ?? {})) {
+        profiles[name] = validateProfile(name, settings);
+    }
+    return {
+        defaultProfile: typeof raw.defaultProfile === 'string' ? raw.defaultProfile : undefined,
+        argvSecrets: raw.argvSecrets,
+        profiles
+    };
+}
+
+/**
+ * Resolve configuration from all sources
+ * Precedence: flags > environment > .env in cwd > config file profile > defaults
+ */
+export function loadConfig(options: ConfigOptions = {}): Config {
+    const configPath = options.config || getConfigPath();
+    const file = readConfigFile(configPath, Boolean(options.config));
+    const sources = {} as Config['sources'];
+
+    let profile = DEFAULT_PROFILE;
+    sources.profile = 'default';
+    if (options.profile) {
+        profile = options.profile;
+        sources.profile = 'flag';
+    }
+    else if (process.env.STASHER_PROFILE) {
+        profile = process.env.STASHER_PROFILE;
+        sources.profile = 'env';
+    }
+    else if (file.defaultProfile) {
+        profile = file.defaultProfile;
+        sources.profile = 'file';
+    }
+
+    const settings = file.profiles[profile];
+    if (!settings && sources.profile !== 'default') {
+        throw new Error(`Profile "${profile}" is not defined in ${configPath}`);
+    }
+
+    let apiBaseUrl = DEFAULT_API_BASE_URL;
+    sources.apiBaseUrl = 'default';
+    const dotEnvApi = process.env.STASHED_API ? undefined : readDotEnvValue('STASHED_API');
+    if (process.env.STASHED_API) {
+        apiBaseUrl = process.env.STASHED_API;
+        sources.apiBaseUrl = 'env';
+    }
+    else if (dotEnvApi) {
+        apiBaseUrl = dotEnvApi;
+        sources.apiBaseUrl = 'dotenv';
+    }
+    else if (settings?.api) {
+        apiBaseUrl = settings.api;
+        sources.apiBaseUrl = 'file';
+    }
+
+    const defaultTtl = settings?.ttl;
+    sources.defaultTtl = defaultTtl ? 'file' : 'default';
+
+    const retry: RetryPolicy = {
+        maxRetries: settings?.retry?.maxRetries ?? DEFAULT_MAX_RETRIES,
+        baseDelay: settings?.retry?.baseDelay ?? DEFAULT_RETRY_DELAY
+    };
+    sources.retry = settings?.retry ? 'file' : 'default';
+
+    let output: OutputFormat = 'text';
+    sources.output = 'default';
+    if (options.json) {
+        output = 'json';
+        sources.output = 'flag';
+    }
+    else if (settings?.output) {
+        output = settings.output;
+        sources.output = 'file';
+    }
+
+    const argvSecrets = file.argvSecrets ?? DEFAULT_ARGV_SECRET_POLICY;
+    sources.argvSecrets = file.argvSecrets ? 'file' : 'default';
+
+    return { apiBaseUrl: apiBaseUrl.replace(/\/+$/, ''), profile, defaultTtl, retry, output, argvSecrets, configPath, sources };
 }
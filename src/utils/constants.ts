@@ -5,14 +5,85 @@
 // Size limits
 export const MAX_SECRET_LENGTH = 4096; // 4KB plaintext
 export const MAX_PAYLOAD_SIZE = 10 * 1024; // 10KB encrypted JSON
+export const CHUNK_SIZE = 6 * 1024; // Plaintext per part; ~8KB base64 + envelope stays under MAX_PAYLOAD_SIZE
+export const MAX_CHUNKED_SECRET_LENGTH = 256 * 1024; // 256KB across all parts: 43 parts, whose manifest still fits MAX_PAYLOAD_SIZE
+
+// Stash lifetime limits
+export const MIN_TTL_SECONDS = 60; // 1 minute
+export const MAX_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+export const MAX_READS_LIMIT = 100; // Upper bound for --max-reads
+export const DEFAULT_TTL_SECONDS = 10 * 60; // 10 minutes when no TTL is requested
+
+// Local stand-in server (stasher serve --local)
+export const DEFAULT_LOCAL_HOST = '127.0.0.1';
+export const DEFAULT_LOCAL_PORT = 8787;
+export const TOMBSTONE_RETENTION_MS = 60 * 60 * 1000; // Answer 410 for an hour after expiry
+export const SWEEP_INTERVAL_MS = 60 * 1000; // Proactive cleanup interval
 
 // Timeout values
 export const STDIN_TIMEOUT = 30000; // 30 second stdin timeout
+export const REQUEST_TIMEOUT = 10000; // 10 second API request timeout (including retries)
 
 // API configuration
 export const DEFAULT_API_BASE_URL = 'https://api.stasher.dev';
+export const DEFAULT_MAX_RETRIES = 3; // fetchWithRetry() attempts after the first
+export const DEFAULT_RETRY_DELAY = 1000; // Base backoff delay in ms
+
+// User configuration
+export const DEFAULT_PROFILE = 'default';
+export const OUTPUT_FORMATS = ['text', 'json'] as const;
+export const ARGV_SECRET_POLICIES = ['allow', 'warn', 'refuse'] as const; // Secrets given as enstash arguments
+export const DEFAULT_ARGV_SECRET_POLICY = 'warn';
 
 // Cryptographic constants
 export const KEY_LENGTH = 32; // 256-bit key
 export const IV_LENGTH = 12; // 96-bit IV for GCM
 export const TAG_LENGTH = 16; // 128-bit auth tag
+export const KEY_CHECK_LENGTH = 4; // 32-bit token check value (6 base64url chars)
+export const KEY_CHECK_SEPARATOR = '.'; // uuid:key.check
+export const REVOKE_TOKEN_PREFIX = 'revoke'; // revoke:uuid:credential
+export const SHARE_TOKEN_PREFIX = 'share'; // share:uuid:threshold:index:share.check
+export const MAX_SHARES = 255; // GF(256) allows share indexes 1..255
+export const LEDGER_RETENTION_MS = 30 * 24 * 60 * 60 * 1000; // Keep ledger entries 30 days past expiry
+export const MAX_RECIPIENTS = 50; // Copies created by one enstash --recipients run
+export const MAX_TOKEN_INPUT_SIZE = 64 * 1024; // Tokens read from stdin (room for MAX_SHARES shares)
+export const REVOKE_HEADER = 'X-Stasher-Revoke'; // Carries the revoke credential on DELETE /unstash
+export const PROTOCOL_HEADER = 'X-Stasher-Protocol'; // Sent on POST /enstash with API_PROTOCOL_VERSION
+export const API_PROTOCOL_VERSION = 2; // v2: the server must store each stash under the client-chosen id
+
+// Supported AEAD ciphers (both use 256-bit keys, 96-bit nonces, 128-bit tags)
+export const CIPHER_ALGORITHMS = ['aes-256-gcm', 'chacha20-poly1305'] as const;
+export const DEFAULT_CIPHER = 'aes-256-gcm';
+
+// Payload envelope format
+export const PAYLOAD_VERSION = 2; // v2 binds stash id + header into AEAD AAD; unversioned = v1
+export const AAD_PREFIX = 'stasher-aad'; // Domain separator for AAD strings
+
+// Passphrase key derivation (scrypt)
+export const SCRYPT_N = 2 ** 15; // CPU/memory cost
+export const SCRYPT_R = 8; // Block size
+export const SCRYPT_P = 1; // Parallelization
+export const SCRYPT_MAX_N = 2 ** 20; // Upper bound accepted from payloads
+export const KDF_SALT_LENGTH = 16; // 128-bit salt
+export const MAX_PASSPHRASE_LENGTH = 1024; // Bytes accepted from the prompt
+export const PASSPHRASE_ATTEMPTS = 3; // Prompts before destash gives up
+
+// Public-key recipients (X25519 ECDH + HKDF-SHA256)
+export const RECIPIENT_ALGORITHM = 'x25519-hkdf-sha256';
+export const X25519_KEY_LENGTH = 32; // Raw public/private key size
+export const KEY_ID_LENGTH = 8; // Truncated SHA-256 of the public key, shown as hex
+export const PUBLIC_KEY_PREFIX = 'x25519:'; // Shareable public key format
+
+// Reverse "request a secret" flow
+export const REQUEST_CODE_PREFIX = 'request'; // request:uuid:publickey
+export const REQUEST_POLL_INTERVAL_MS = 3000; // Delay between checks for a reply
+export const DEFAULT_REQUEST_WAIT_SECONDS = 15 * 60; // How long request --wait polls by default
+
+// Dotenv bundles (enstash --env-file): several variables in one stash
+export const ENV_BUNDLE_CONTENT_TYPE = 'application/vnd.stasher.env+json';
+export const ENV_FORMATS = ['dotenv', 'json', 'shell-export', 'yaml', 'k8s-secret', 'docker-env'] as const;
+export const MAX_ENV_BUNDLE_VARS = 500;
+
+// Read receipts (enstash --wait): status polls back off between these bounds
+export const WAIT_POLL_BASE_MS = 2000;
+export const WAIT_POLL_MAX_MS = 30000;
@@ -1,23 +1,206 @@
-import { randomBytes, createCipheriv, createDecipheriv } from 'crypto';
-import { KEY_LENGTH, IV_LENGTH, TAG_LENGTH } from './constants';
+import {
+  randomBytes,
+  createHash,
+  createHmac,
+  timingSafeEqual,
+  scrypt,
+  hkdfSync,
+  createCipheriv,
+  createDecipheriv,
+  createPrivateKey,
+  createPublicKey,
+  diffieHellman,
+  generateKeyPairSync,
+  CipherGCM,
+  CipherChaCha20Poly1305,
+  DecipherGCM,
+  DecipherChaCha20Poly1305
+} from 'crypto';
+import {
+  KEY_LENGTH,
+  IV_LENGTH,
+  TAG_LENGTH,
+  PAYLOAD_VERSION,
+  AAD_PREFIX,
+  CIPHER_ALGORITHMS,
+  DEFAULT_CIPHER,
+  SCRYPT_N,
+  SCRYPT_R,
+  SCRYPT_P,
+  SCRYPT_MAX_N,
+  KDF_SALT_LENGTH,
+  KEY_CHECK_LENGTH,
+  KEY_CHECK_SEPARATOR,
+  REVOKE_TOKEN_PREFIX,
+  RECIPIENT_ALGORITHM,
+  X25519_KEY_LENGTH,
+  KEY_ID_LENGTH,
+  REQUEST_CODE_PREFIX,
+  SHARE_TOKEN_PREFIX
+} from './constants';
+import { combineShares, splitSecret, Share } from './shamir';
+
+export type CipherAlgorithm = typeof CIPHER_ALGORITHMS[number];
+
+/**
+ * What the ciphertext holds: a secret (default), a multi-part manifest, or one part
+ */
+export type PayloadType = 'manifest' | 'part';
+
+/**
+ * How the decrypted secret is framed: absent means raw bytes, 'envelope' means
+ * encrypted metadata first (see envelope.ts); on a manifest it applies to the reassembled secret
+ */
+export type PlaintextFormat = 'envelope';
 
 export interface EncryptionResult {
+  alg: CipherAlgorithm;
   key: Buffer;
   iv: Buffer;
   tag: Buffer;
   ciphertext: Buffer;
 }
 
+export interface PartInfo {
+  set: string; // Manifest stash id
+  index: number; // Zero-based position
+  count: number;
+}
+
+export interface PayloadMetadata {
+  createdAt: string;
+  ttl?: number; // Requested lifetime in seconds
+  maxReads?: number; // Requested read limit
+  part?: PartInfo; // Only on type 'part'
+}
+
+export interface HeaderOptions {
+  alg?: CipherAlgorithm;
+  kdf?: KdfParams;
+  recipient?: RecipientParams;
+  type?: PayloadType;
+  plaintext?: PlaintextFormat;
+}
+
+/**
+ * Passphrase KDF parameters recorded in the envelope (salt is base64url)
+ */
+export interface KdfParams {
+  name: 'scrypt';
+  n: number;
+  r: number;
+  p: number;
+  salt: string;
+}
+
+/**
+ * Public-key recipient of a stash: the ephemeral key and which recipient key it targets
+ */
+export interface RecipientParams {
+  alg: typeof RECIPIENT_ALGORITHM;
+  kid: string; // keyId() of the recipient's public key
+  epk: string; // Ephemeral X25519 public key, base64url
+}
+
+/**
+ * Raw X25519 key pair as unpadded base64url strings
+ */
+export interface X25519KeyPair {
+  publicKey: string;
+  privateKey: string;
+}
+
+/**
+ * Authenticated (but unencrypted) part of the envelope
+ * Every field here is bound into the AEAD AAD together with the stash id
+ */
+export interface PayloadHeader {
+  v: number;
+  alg?: CipherAlgorithm; // Absent means aes-256-gcm
+  kdf?: KdfParams; // Present when a passphrase is required
+  recipient?: RecipientParams; // Present when encrypted to a public key
+  type?: PayloadType; // Absent means a plain secret
+  plaintext?: PlaintextFormat; // Absent means the secret bytes alone
+  meta: PayloadMetadata;
+}
+
 export interface PayloadStructure {
+  v?: number; // Absent on legacy (v1) payloads, which carry no AAD
+  alg?: CipherAlgorithm;
+  kdf?: KdfParams;
+  recipient?: RecipientParams;
+  type?: PayloadType;
+  plaintext?: PlaintextFormat;
+  meta?: PayloadMetadata;
   iv: string;
   tag: string;
   ciphertext: string;
 }
 
+export interface EncryptOptions {
+  algorithm?: CipherAlgorithm;
+  key?: Buffer; // Token key to use instead of a random one (replies, see deriveReplyKey())
+  aad?: Buffer;
+  passphraseKey?: Buffer; // Output of derivePassphraseKey(), mixed into the cipher key
+  recipientKey?: Buffer; // From createRecipientKey(), mixed into the cipher key
+}
+
+export interface DecryptOptions {
+  stashId?: string;
+  passphraseKey?: Buffer;
+  recipientKey?: Buffer; // From deriveRecipientKey()
+}
+
 export interface StashTokenParts {
   id: string;
   key: Buffer;
 }
+
+interface CipherSpec {
+  keyLength: number;
+  ivLength: number;
+  tagLength: number;
+}
+
+// share:uuid:threshold:index:share.check
+const SHARE_TOKEN_REGEX = new RegExp(
+    `^${SHARE_TOKEN_PREFIX}:([0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}):(\\d{1,3}):(\\d{1,3}):([A-Za-z0-9_-]+)\\${KEY_CHECK_SEPARATOR}([A-Za-z0-9_-]+)$`, 'i');
+
+const CIPHER_SPECS: Record<CipherAlgorithm, CipherSpec> = {
+  'aes-256-gcm': { keyLength: KEY_LENGTH, ivLength: IV_LENGTH, tagLength: TAG_LENGTH },
+  'chacha20-poly1305': { keyLength: KEY_LENGTH, ivLength: IV_LENGTH, tagLength: TAG_LENGTH }
+};
+
+/**
+ * Check whether a string names a supported AEAD cipher
+ */
+export function isCipherAlgorithm(alg: unknown): alg is CipherAlgorithm {
+    return typeof alg === 'string' && (CIPHER_ALGORITHMS as readonly string[]).includes(alg);
+}
+
+/**
+ * Create the cipher for alg with its tag length
+ * The calls only differ in how alg is narrowed, which picks the typed createCipheriv overload
+ */
+function createAeadCipher(alg: CipherAlgorithm, key: Buffer, iv: Buffer): CipherGCM | CipherChaCha20Poly1305 {
+    const { tagLength } = CIPHER_SPECS[alg];
+    if (alg === 'chacha20-poly1305') {
+        return createCipheriv(alg, key, iv, { authTagLength: tagLength });
+    }
+    return createCipheriv(alg, key, iv, { authTagLength: tagLength });
+}
+
+/**
+ * Create the decipher for alg; split by alg for the same overload reason as createAeadCipher()
+ */
+function createAeadDecipher(alg: CipherAlgorithm, key: Buffer, iv: Buffer): DecipherGCM | DecipherChaCha20Poly1305 {
+    const { tagLength } = CIPHER_SPECS[alg];
+    if (alg === 'chacha20-poly1305') {
+        return createDecipheriv(alg, key, iv, { authTagLength: tagLength });
+    }
+    return createDecipheriv(alg, key, iv, { authTagLength: tagLength });
+}
+
 /**
  * Helper function to zero out sensitive buffers
  * Callers are responsible for zeroing encryption keys, ciphertext, etc.
@@ -47,12 +230,128 @@ export function encodeKey(key: Buffer): string {
 }
 
 /**
- * Format a complete stash token (id:base64urlkey)
+ * Compute the key check value for a token
+ * Truncated SHA-256 over id and key so copy/paste damage is caught offline
+ */
+function computeKeyCheck(id: string, key: Buffer): Buffer {
+    return createHash('sha256')
+        .update('stasher-key-check:')
+        .update(id.toLowerCase())
+        .update(':')
+        .update(key)
+        .digest()
+        .subarray(0, KEY_CHECK_LENGTH);
+}
+
+/**
+ * Format a complete stash token (id:base64urlkey.check)
  * Uses base64url encoding for terminal/URL safety
  */
 export function formatStashToken(id: string, key: Buffer): string {
-    return `${id}:${encodeKey(key)}`;
+    return `${id}:${encodeKey(key)}${KEY_CHECK_SEPARATOR}${toBase64Url(computeKeyCheck(id, key))}`;
+}
+
+/**
+ * Format a share link (base/s/id#base64urlkey.check)
+ * The key lives in the fragment, which browsers and proxies never send to the server
+ */
+export function formatStashLink(baseUrl: string, id: string, key: Buffer): string {
+    const token = formatStashToken(id, key);
+    return `${baseUrl.replace(/\/+$/, '')}/s/${id}#${token.substring(id.length + 1)}`;
+}
+
+/**
+ * Split the token key into Shamir share tokens (share:id:threshold:index:share.check)
+ * Every share carries the check value of the whole key, so a bad combination is caught offline
+ */
+export function formatShareTokens(id: string, key: Buffer, count: number, threshold: number): string[] {
+    const check = toBase64Url(computeKeyCheck(id, key));
+    const shares = splitSecret(key, count, threshold);
+    try {
+        return shares.map(({ x, y }) =>
+            `${SHARE_TOKEN_PREFIX}:${id}:${threshold}:${x}:${toBase64Url(y)}${KEY_CHECK_SEPARATOR}${check}`);
+    } finally {
+        shares.forEach(({ y }) => zeroBuffer(y));
+    }
+}
+
+/**
+ * Check whether a string looks like a share token (rather than a full token or link)
+ */
+export function isShareToken(token: string): boolean {
+    return token.trim().startsWith(`${SHARE_TOKEN_PREFIX}:`);
+}
+
+/**
+ * Reconstruct the token key from share tokens
+ * Fails without touching the network if shares are too few, duplicated, from another
+ * stash, or don't reproduce the key's check value
+ */
+export function combineShareTokens(tokens: string[]): StashTokenParts {
+    const parsed = tokens.map((token) => {
+        const match = token.trim().match(SHARE_TOKEN_REGEX);
+        if (!match) {
+            throw new Error('Invalid share token format');
+        }
+        const [, id, threshold, index, share, check] = match;
+        return { id: id.toLowerCase(), threshold: Number(threshold), x: Number(index), share, check };
+    });
+
+    const [first] = parsed;
+    if (parsed.some((p) => p.id !== first.id)) {
+        throw new Error('Shares belong to different stashes');
+    }
+    if (parsed.some((p) => p.threshold !== first.threshold || p.check !== first.check)) {
+        throw new Error('Shares come from different splits');
+    }
+    if (parsed.some((p) => p.x < 1 || p.x > 255) || new Set(parsed.map((p) => p.x)).size !== parsed.length) {
+        throw new Error('Share indexes must be distinct values from 1 to 255');
+    }
+    if (parsed.length < first.threshold) {
+        throw new Error(`Need ${first.threshold} shares, got ${parsed.length}`);
+    }
+
+    const shares: Share[] = parsed.slice(0, first.threshold).map((p) => ({ x: p.x, y: decodeBase64Url(p.share) }));
+    try {
+        if (shares.some(({ y }) => y.length !== KEY_LENGTH)) {
+            throw new Error(`Invalid share length: expected ${KEY_LENGTH} bytes`);
+        }
+        const key = combineShares(shares);
+        const expected = computeKeyCheck(first.id, key);
+        const check = decodeBase64Url(first.check);
+        if (check.length !== expected.length || !timingSafeEqual(check, expected)) {
+            zeroBuffer(key);
+            throw new Error('Shares do not reconstruct the key: one is damaged or from a different split');
+        }
+        return { id: first.id, key };
+    } finally {
+        shares.forEach(({ y }) => zeroBuffer(y));
+    }
+}
+
+/**
+ * Derive the revoke credential for a stash from its token key
+ * Whoever holds the full token can revoke; the server only stores a hash of this
+ */
+export function deriveRevokeCredential(id: string, key: Buffer): string {
+    return toBase64Url(createHmac('sha256', key).update(`stasher-revoke:${id.toLowerCase()}`).digest());
+}
+
+/**
+ * Hash a revoke credential for registration with the server
+ */
+export function hashRevokeCredential(credential: string): string {
+    return toBase64Url(createHash('sha256').update(credential, 'utf8').digest());
+}
+
+/**
+ * Format a revoke token (revoke:id:credential)
+ * Lets the holder delete the stash without being able to read it
+ */
+export function formatRevokeToken(id: string, credential: string): string {
+    return `${REVOKE_TOKEN_PREFIX}:${id}:${credential}`;
 }
+
 /**
  * Encode payload as JSON string for HTTP requests
  * Centralizes payload serialization logic
@@ -61,6 +360,274 @@ export function encodePayload(payload: PayloadStructure): string {
     return JSON.stringify(payload);
 }
 
+/**
+ * Encode the /enstash request body (client-assigned id, payload, lifetime options and revoke hash)
+ * The id is chosen locally so it can be bound into the AAD before upload
+ */
+export function encodeEnstashRequest(id: string, payload: PayloadStructure, revokeHash?: string): string {
+    return JSON.stringify({ id, ...payload, ttl: payload.meta?.ttl, maxReads: payload.meta?.maxReads, revokeHash });
+}
+
+/**
+ * Serialize a value as JSON with object keys sorted recursively
+ * Gives a stable byte representation regardless of how the server reorders fields
+ */
+function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value as Record<string, unknown>)
+            .filter((k) => (value as Record<string, unknown>)[k] !== undefined)
+            .sort()
+            .map((k) => `${JSON.stringify(k)}:${canonicalJson((value as Record<string, unknown>)[k])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * Create the header for a new payload
+ */
+export function createPayloadHeader(meta: PayloadMetadata, options: HeaderOptions = {}): PayloadHeader {
+    return {
+        v: PAYLOAD_VERSION,
+        alg: options.alg ?? DEFAULT_CIPHER,
+        kdf: options.kdf,
+        recipient: options.recipient,
+        type: options.type,
+        plaintext: options.plaintext,
+        meta
+    };
+}
+
+/**
+ * Generate fresh scrypt parameters with a random salt
+ */
+export function createKdfParams(): KdfParams {
+    return {
+        name: 'scrypt',
+        n: SCRYPT_N,
+        r: SCRYPT_R,
+        p: SCRYPT_P,
+        salt: toBase64Url(randomBytes(KDF_SALT_LENGTH))
+    };
+}
+
+/**
+ * Derive a key from a passphrase using the envelope's scrypt parameters
+ * NOTE: Callers must zero out the passphrase and the returned key
+ */
+export function derivePassphraseKey(passphrase: Buffer, params: KdfParams): Promise<Buffer> {
+    const salt = decodeBase64Url(params.salt);
+    // scrypt needs 128 * N * r bytes; allow headroom over Node's 32MB default
+    const maxmem = 256 * params.n * params.r;
+    return new Promise((resolve, reject) => {
+        scrypt(passphrase, salt, KEY_LENGTH, { N: params.n, r: params.r, p: params.p, maxmem }, (err, derived) => {
+            if (err) reject(err);
+            else resolve(derived);
+        });
+    });
+}
+
+/**
+ * Combine the random token key with a passphrase-derived key (HKDF-SHA256)
+ * Neither the token nor the passphrase alone is enough to decrypt
+ */
+function mixPassphraseKey(key: Buffer, passphraseKey: Buffer): Buffer {
+    return Buffer.from(hkdfSync('sha256', key, passphraseKey, 'stasher-passphrase', KEY_LENGTH));
+}
+
+/**
+ * Combine the token key with an ECDH-derived recipient key (HKDF-SHA256)
+ * An intercepted token is useless without the recipient's private key
+ */
+function mixRecipientKey(key: Buffer, recipientKey: Buffer): Buffer {
+    return Buffer.from(hkdfSync('sha256', key, recipientKey, 'stasher-recipient', KEY_LENGTH));
+}
+
+/**
+ * Derive the cipher key from the token key and whatever extra factors the header requires
+ */
+function deriveCipherKey(key: Buffer, passphraseKey?: Buffer, recipientKey?: Buffer): Buffer {
+    const withPassphrase = passphraseKey ? mixPassphraseKey(key, passphraseKey) : key;
+    if (!recipientKey) {
+        return withPassphrase;
+    }
+    try {
+        return mixRecipientKey(withPassphrase, recipientKey);
+    } finally {
+        if (withPassphrase !== key) zeroBuffer(withPassphrase);
+    }
+}
+
+/**
+ * Generate a new X25519 key pair for the keyring
+ */
+export function generateX25519KeyPair(): X25519KeyPair {
+    const { publicKey, privateKey } = generateKeyPairSync('x25519');
+    return {
+        publicKey: publicKey.export({ format: 'jwk' }).x!,
+        privateKey: privateKey.export({ format: 'jwk' }).d!
+    };
+}
+
+/**
+ * Short, stable identifier for a public key (truncated SHA-256, hex)
+ */
+export function keyId(publicKey: string): string {
+    return createHash('sha256').update(decodeBase64Url(publicKey)).digest().subarray(0, KEY_ID_LENGTH).toString('hex');
+}
+
+/**
+ * Check that a string is a raw X25519 public or private key in base64url
+ */
+export function isX25519Key(key: string): boolean {
+    try {
+        return validateBase64AndGetLength(key, X25519_KEY_LENGTH) === X25519_KEY_LENGTH;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Derive the recipient key from an ECDH shared secret
+ * Both public keys are bound in as salt so the key is specific to this exchange
+ */
+function recipientHkdf(shared: Buffer, epk: string, recipientPublicKey: string): Buffer {
+    const salt = Buffer.concat([decodeBase64Url(epk), decodeBase64Url(recipientPublicKey)]);
+    try {
+        return Buffer.from(hkdfSync('sha256', shared, salt, RECIPIENT_ALGORITHM, KEY_LENGTH));
+    } finally {
+        zeroBuffer(shared);
+    }
+}
+
+/**
+ * Create a one-off ephemeral key and the recipient key it shares with a public key
+ * NOTE: Caller must zero the returned recipientKey
+ */
+export function createRecipientKey(recipientPublicKey: string): { params: RecipientParams; recipientKey: Buffer } {
+    const ephemeral = generateKeyPairSync('x25519');
+    const epk = ephemeral.publicKey.export({ format: 'jwk' }).x!;
+    const shared = diffieHellman({
+        privateKey: ephemeral.privateKey,
+        publicKey: createPublicKey({ key: { kty: 'OKP', crv: 'X25519', x: recipientPublicKey }, format: 'jwk' })
+    });
+    return {
+        params: { alg: RECIPIENT_ALGORITHM, kid: keyId(recipientPublicKey), epk },
+        recipientKey: recipientHkdf(shared, epk, recipientPublicKey)
+    };
+}
+
+/**
+ * Recompute the recipient key on the receiving side with the local private key
+ * NOTE: Caller must zero the returned key
+ */
+export function deriveRecipientKey(params: RecipientParams, keyPair: X25519KeyPair): Buffer {
+    const shared = diffieHellman({
+        privateKey: createPrivateKey({
+            key: { kty: 'OKP', crv: 'X25519', x: keyPair.publicKey, d: keyPair.privateKey },
+            format: 'jwk'
+        }),
+        publicKey: createPublicKey({ key: { kty: 'OKP', crv: 'X25519', x: params.epk }, format: 'jwk' })
+    });
+    return recipientHkdf(shared, params.epk, keyPair.publicKey);
+}
+
+/**
+ * Token key for a reply to a request: both sides derive it from the recipient key,
+ * so nothing but the request's private key is needed to decrypt
+ * NOTE: Caller must zero the returned key
+ */
+export function deriveReplyKey(recipientKey: Buffer): Buffer {
+    return Buffer.from(hkdfSync('sha256', recipientKey, Buffer.alloc(0), 'stasher-reply', KEY_LENGTH));
+}
+
+/**
+ * Format a request code (request:id:publickey)
+ * Only public values: the reply stash id and the requester's ephemeral public key
+ */
+export function formatRequestCode(id: string, publicKey: string): string {
+    return `${REQUEST_CODE_PREFIX}:${id}:${publicKey}`;
+}
+
+/**
+ * Validate multi-part position info from an untrusted payload
+ */
+function parsePartInfo(part: any): PartInfo {
+    if (!part || typeof part !== 'object' || typeof part.set !== 'string' ||
+        !Number.isInteger(part.index) || !Number.isInteger(part.count) ||
+        part.index < 0 || part.index >= part.count) {
+        throw new Error('Field meta.part must describe the part position');
+    }
+    return { set: part.set, index: part.index, count: part.count };
+}
+
+/**
+ * Validate KDF parameters from an untrusted payload
+ * Bounds cost parameters so a hostile server cannot make us burn CPU/memory
+ */
+function parseKdfParams(kdf: any): KdfParams {
+    if (!kdf || typeof kdf !== 'object' || kdf.name !== 'scrypt') {
+        throw new Error('Field kdf must describe scrypt parameters');
+    }
+    const { n, r, p, salt } = kdf;
+    if (!Number.isInteger(n) || n < 2 || n > SCRYPT_MAX_N || (n & (n - 1)) !== 0) {
+        throw new Error('Invalid scrypt cost parameter');
+    }
+    if (!Number.isInteger(r) || r < 1 || r > 32 || !Number.isInteger(p) || p < 1 || p > 16) {
+        throw new Error('Invalid scrypt block size or parallelization');
+    }
+    validateBase64AndGetLength(salt, KDF_SALT_LENGTH);
+    return { name: 'scrypt', n, r, p, salt };
+}
+
+/**
+ * Validate public-key recipient parameters from an untrusted payload
+ */
+function parseRecipientParams(recipient: any): RecipientParams {
+    if (!recipient || typeof recipient !== 'object' || recipient.alg !== RECIPIENT_ALGORITHM) {
+        throw new Error(`Field recipient must describe an ${RECIPIENT_ALGORITHM} recipient`);
+    }
+    const { kid, epk } = recipient;
+    if (typeof kid !== 'string' || !new RegExp(`^[0-9a-f]{${KEY_ID_LENGTH * 2}}$`).test(kid)) {
+        throw new Error('Invalid recipient key id');
+    }
+    validateBase64AndGetLength(epk, X25519_KEY_LENGTH);
+    return { alg: RECIPIENT_ALGORITHM, kid, epk };
+}
+
+/**
+ * Build the additional authenticated data for a stash
+ * Binds the ciphertext to its stash id, format version and creation metadata
+ */
+export function buildAad(stashId: string, header: PayloadHeader): Buffer {
+    return Buffer.from(`${AAD_PREFIX}:${canonicalJson({ id: stashId, ...header })}`, 'utf8');
+}
+
+/**
+ * Extract the authenticated header from a parsed payload
+ * Returns null for legacy payloads, which were sealed without AAD
+ */
+function getPayloadHeader(payload: PayloadStructure): PayloadHeader | null {
+    if (payload.v === undefined) {
+        return null;
+    }
+    if (!payload.meta) {
+        throw new Error('Versioned payload is missing metadata');
+    }
+    return {
+        v: payload.v,
+        alg: payload.alg,
+        kdf: payload.kdf,
+        recipient: payload.recipient,
+        type: payload.type,
+        plaintext: payload.plaintext,
+        meta: payload.meta
+    };
+}
+
 
 /**
  * Decode base64url to Buffer
@@ -128,54 +695,132 @@ export function parsePayload(encoded: string): PayloadStructure {
         }
     }
     
-    // Validate base64url format and exact byte lengths
-    validateBase64AndGetLength(parsed.iv, IV_LENGTH);
-    validateBase64AndGetLength(parsed.tag, TAG_LENGTH);
+    // Unversioned payloads are legacy v1 (AES-256-GCM, no AAD, no metadata)
+    const result: PayloadStructure = {
+        iv: parsed.iv,
+        tag: parsed.tag,
+        ciphertext: parsed.ciphertext
+    };
+    let alg: CipherAlgorithm = DEFAULT_CIPHER;
+    
+    if ('v' in parsed) {
+        if (parsed.v !== PAYLOAD_VERSION) {
+            throw new Error(`Unsupported payload version: ${parsed.v}`);
+        }
+        const meta = parsed.meta;
+        if (!meta || typeof meta !== 'object' || typeof meta.createdAt !== 'string') {
+            throw new Error('Field meta must be an object with a createdAt string');
+        }
+        for (const field of ['ttl', 'maxReads']) {
+            if (field in meta && !(Number.isInteger(meta[field]) && meta[field] > 0)) {
+                throw new Error(`Field meta.${field} must be a positive integer`);
+            }
+        }
+        result.v = parsed.v;
+        result.meta = { createdAt: meta.createdAt, ttl: meta.ttl, maxReads: meta.maxReads };
+        
+        if ('type' in parsed) {
+            if (parsed.type !== 'manifest' && parsed.type !== 'part') {
+                throw new Error(`Unsupported payload type: ${parsed.type}`);
+            }
+            result.type = parsed.type;
+        }
+        if (result.type === 'part') {
+            result.meta.part = parsePartInfo(meta.part);
+        }
+        if ('plaintext' in parsed) {
+            if (parsed.plaintext !== 'envelope' || result.type === 'part') {
+                throw new Error(`Unsupported plaintext format: ${parsed.plaintext}`);
+            }
+            result.plaintext = parsed.plaintext;
+        }
+        
+        if ('alg' in parsed) {
+            if (!isCipherAlgorithm(parsed.alg)) {
+                throw new Error(`Unsupported cipher algorithm: ${parsed.alg}`);
+            }
+            alg = parsed.alg;
+            result.alg = parsed.alg;
+        }
+        if ('kdf' in parsed) {
+            result.kdf = parseKdfParams(parsed.kdf);
+        }
+        if ('recipient' in parsed) {
+            result.recipient = parseRecipientParams(parsed.recipient);
+        }
+    }
+    else if ('alg' in parsed || 'kdf' in parsed || 'recipient' in parsed || 'plaintext' in parsed) {
+        throw new Error('Unversioned payload cannot specify an algorithm, KDF, recipient or plaintext format');
+    }
+    
+    // Validate base64url format and exact byte lengths for the selected cipher
+    const spec = CIPHER_SPECS[alg];
+    validateBase64AndGetLength(parsed.iv, spec.ivLength);
+    validateBase64AndGetLength(parsed.tag, spec.tagLength);
     const ciphertextLength = validateBase64AndGetLength(parsed.ciphertext);
     
     if (ciphertextLength === 0) {
         throw new Error('Ciphertext cannot be empty');
     }
     
-    return {
-        iv: parsed.iv,
-        tag: parsed.tag,
-        ciphertext: parsed.ciphertext
-    };
+    return result;
 }
 /**
- * Encrypt a secret using AES-256-GCM
+ * Encrypt a secret using an AEAD cipher (AES-256-GCM unless overridden)
  * NOTE: Callers must zero out returned buffers (key, iv, ciphertext, tag)
  * Accepts Uint8Array to minimize string copies in memory
  */
-export function encrypt(secretBytes: Uint8Array): EncryptionResult {
-    // Generate key and IV using defined constants
-    const key = randomBytes(KEY_LENGTH);
-    const iv = randomBytes(IV_LENGTH);
+export function encrypt(secretBytes: Uint8Array, options: EncryptOptions = {}): EncryptionResult {
+    const alg = options.algorithm ?? DEFAULT_CIPHER;
+    const spec = CIPHER_SPECS[alg];
+    
+    // Generate key and IV sized for the selected cipher
+    if (options.key && options.key.length !== spec.keyLength) {
+        throw new Error(`Invalid key length: must be ${spec.keyLength} bytes`);
+    }
+    const key = options.key ?? randomBytes(spec.keyLength);
+    const iv = randomBytes(spec.ivLength);
     
-    // Encrypt using AES-256-GCM
-    const cipher = createCipheriv('aes-256-gcm', key, iv);
-    let ciphertext = cipher.update(secretBytes);
-    ciphertext = Buffer.concat([ciphertext, cipher.final()]);
-    const tag = cipher.getAuthTag();
+    // The token key stays random; a passphrase or recipient only changes the cipher key
+    const cipherKey = deriveCipherKey(key, options.passphraseKey, options.recipientKey);
     
-    return { key, iv, ciphertext, tag };
+    try {
+        const cipher = createAeadCipher(alg, cipherKey, iv);
+        if (options.aad) {
+            cipher.setAAD(options.aad, { plaintextLength: secretBytes.length });
+        }
+        let ciphertext = cipher.update(secretBytes);
+        ciphertext = Buffer.concat([ciphertext, cipher.final()]);
+        const tag = cipher.getAuthTag();
+        
+        return { alg, key, iv, ciphertext, tag };
+    } finally {
+        if (cipherKey !== key) zeroBuffer(cipherKey);
+    }
 }
-export function createPayload(r: EncryptionResult): PayloadStructure {
+export function createPayload(r: EncryptionResult, header?: PayloadHeader): PayloadStructure {
     return {
+        ...header,
         iv: toBase64Url(r.iv),
         tag: toBase64Url(r.tag),
         ciphertext: toBase64Url(r.ciphertext)
     };
 }
 /**
- * Decrypt payload using AES-256-GCM and return raw bytes
+ * Decrypt payload with the cipher named in its envelope and return raw bytes
+ * Versioned payloads require the stash id they were fetched under (AAD check)
  * NOTE: Callers must zero out input buffers and returned buffer
  */
-export function decryptToBytes(payload: PayloadStructure, key: Buffer): Buffer {
+export function decryptToBytes(payload: PayloadStructure, key: Buffer, options: DecryptOptions = {}): Buffer {
+    const alg = payload.alg ?? DEFAULT_CIPHER;
+    if (!isCipherAlgorithm(alg)) {
+        throw new Error(`Unsupported cipher algorithm: ${alg}`);
+    }
+    const spec = CIPHER_SPECS[alg];
+    
     // Validate key length first
-    if (key.length !== KEY_LENGTH) {
-        throw new Error(`Invalid key length: must be ${KEY_LENGTH} bytes`);
+    if (key.length !== spec.keyLength) {
+        throw new Error(`Invalid key length: must be ${spec.keyLength} bytes`);
     }
     
     // Decode base64url directly to buffers (avoiding string normalization when possible)
@@ -184,29 +829,50 @@ export function decryptToBytes(payload: PayloadStructure, key: Buffer): Buffer {
     const ciphertext = decodeBase64Url(payload.ciphertext);
     
     // Validate cryptographic component lengths after decoding
-    if (iv.length !== IV_LENGTH) {
-        throw new Error(`Invalid IV length: must be ${IV_LENGTH} bytes`);
+    if (iv.length !== spec.ivLength) {
+        throw new Error(`Invalid IV length: must be ${spec.ivLength} bytes`);
     }
-    if (tag.length !== TAG_LENGTH) {
-        throw new Error(`Invalid auth tag length: must be ${TAG_LENGTH} bytes`);
+    if (tag.length !== spec.tagLength) {
+        throw new Error(`Invalid auth tag length: must be ${spec.tagLength} bytes`);
     }
     
-    const decipher = createDecipheriv('aes-256-gcm', key, iv, { authTagLength: TAG_LENGTH });
-    decipher.setAuthTag(tag);
-    let decrypted = decipher.update(ciphertext);
-    // Buffer.concat is required here for Node.js crypto API
-    decrypted = Buffer.concat([decrypted, decipher.final()]);
+    const header = getPayloadHeader(payload);
+    if (header?.kdf && !options.passphraseKey) {
+        throw new Error('Passphrase is required to decrypt this stash');
+    }
+    if (header?.recipient && !options.recipientKey) {
+        throw new Error('A private key is required to decrypt this stash');
+    }
     
-    return decrypted;
+    const cipherKey = deriveCipherKey(key,
+        header?.kdf ? options.passphraseKey : undefined,
+        header?.recipient ? options.recipientKey : undefined);
+    try {
+        const decipher = createAeadDecipher(alg, cipherKey, iv);
+        if (header) {
+            if (!options.stashId) {
+                throw new Error('Stash id is required to authenticate a versioned payload');
+            }
+            decipher.setAAD(buildAad(options.stashId, header), { plaintextLength: ciphertext.length });
+        }
+        decipher.setAuthTag(tag);
+        let decrypted = decipher.update(ciphertext);
+        // Buffer.concat is required here for Node.js crypto API
+        decrypted = Buffer.concat([decrypted, decipher.final()]);
+        
+        return decrypted;
+    } finally {
+        if (cipherKey !== key) zeroBuffer(cipherKey);
+    }
 }
 
 /**
- * Decrypt payload using AES-256-GCM and return UTF-8 string
+ * Decrypt payload and return UTF-8 string
  * NOTE: Callers must zero out input buffers
  * Always wipes decrypted bytes, even if toString() throws
  */
-export function decrypt(payload: PayloadStructure, key: Buffer): string {
-    const buf = decryptToBytes(payload, key);
+export function decrypt(payload: PayloadStructure, key: Buffer, options: DecryptOptions = {}): string {
+    const buf = decryptToBytes(payload, key, options);
     try {
         return buf.toString('utf8');
     } finally {
@@ -215,9 +881,9 @@ export function decrypt(payload: PayloadStructure, key: Buffer): string {
 }
 
 /**
- * Decode a stash token (uuid:base64urlkey) and return the components
+ * Decode a stash token (uuid:base64urlkey[.check]) and return the components
  * Accepts both base64url (preferred) and standard base64 for compatibility
- * Validates key length early to provide clear error messages
+ * Validates key length and check value so damaged tokens fail before any network call
  */
 export function decodeStashToken(token: string): StashTokenParts {
     const colonIndex = token.indexOf(':');
@@ -228,12 +894,30 @@ export function decodeStashToken(token: string): StashTokenParts {
     const id = token.substring(0, colonIndex).trim();
     let keyEncoded = token.substring(colonIndex + 1).trim();
     
+    // Tokens issued before check values were introduced have no separator
+    let checkEncoded: string | undefined;
+    const checkIndex = keyEncoded.lastIndexOf(KEY_CHECK_SEPARATOR);
+    if (checkIndex !== -1) {
+        checkEncoded = keyEncoded.substring(checkIndex + 1);
+        keyEncoded = keyEncoded.substring(0, checkIndex);
+    }
+    
     const key = decodeBase64Url(keyEncoded);
     
     // Validate key length early to catch truncated keys
     if (key.length !== KEY_LENGTH) {
+        zeroBuffer(key);
         throw new Error(`Invalid key length: expected ${KEY_LENGTH} bytes, got ${key.length} bytes`);
     }
     
+    if (checkEncoded !== undefined) {
+        const check = decodeBase64Url(checkEncoded);
+        const expected = computeKeyCheck(id, key);
+        if (check.length !== expected.length || !timingSafeEqual(check, expected)) {
+            zeroBuffer(key);
+            throw new Error('Token check failed: the id or key was mistyped or damaged');
+        }
+    }
+    
     return { id, key };
 }
@@ -0,0 +1,118 @@
+/**
+ * Hand a decrypted secret to the user: byte for byte to a new file (--output) or to stdout
+ * Shared by destash and request, which both end up holding a consumed stash's plaintext.
+ */
+import { randomUUID } from 'crypto';
+import { constants as fsConstants, promises as fs } from 'fs';
+import { isUtf8 } from 'buffer';
+import { basename, dirname, join } from 'path';
+import { CliError, exitWithMessage, isJsonOutput, writeResult } from './output';
+import { EnvelopeMetadata } from './envelope';
+
+export interface DeliveryTarget {
+  output?: string;
+  force?: boolean;
+}
+
+/**
+ * Make sure --output can be written before the fetch burns the stash
+ */
+export async function checkOutputPath(path: string, force: boolean): Promise<void> {
+  let exists = true;
+  try {
+    if ((await fs.lstat(path)).isDirectory()) {
+      exitWithMessage(`${path} is a directory. The stash was not touched.`, 'invalid_input');
+    }
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      exitWithMessage(`Cannot use ${path}: ${error.message}. The stash was not touched.`, 'invalid_input');
+    }
+    exists = false;
+  }
+  if (exists && !force) {
+    exitWithMessage(`${path} already exists. Use --force to replace it. The stash was not touched.`, 'invalid_input');
+  }
+  try {
+    await fs.access(dirname(path), fsConstants.W_OK);
+  } catch {
+    exitWithMessage(`Cannot write to ${dirname(path)}. The stash was not touched.`, 'invalid_input');
+  }
+}
+
+/**
+ * Write the secret to a file only the owner can read
+ * Without force an existing file is never opened; with force it is replaced atomically
+ */
+export async function writeSecretFile(path: string, data: Buffer, force: boolean, mode: number = 0o600): Promise<void> {
+  if (!force) {
+    await fs.writeFile(path, data, { flag: 'wx', mode });
+    return;
+  }
+  const tmp = join(dirname(path), `.${basename(path)}.${randomUUID()}.tmp`);
+  try {
+    await fs.writeFile(tmp, data, { flag: 'wx', mode });
+    await fs.rename(tmp, path);
+  } catch (error) {
+    await fs.rm(tmp, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Write bytes to stdout and wait until they are handed off, so the buffer can be zeroed after
+ */
+export function writeToStdout(data: Buffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    process.stdout.write(data, (error) => (error ? reject(error) : resolve()));
+  });
+}
+
+/**
+ * Deliver the secret and print the result
+ * Enveloped secrets (meta set) are exact bytes, with a newline only for text the sender typed;
+ * legacy secrets are printed as text with a newline. extra is added to the JSON result.
+ */
+export async function deliverSecret(
+  id: string,
+  data: Buffer,
+  meta: EnvelopeMetadata | undefined,
+  target: DeliveryTarget,
+  extra: Record<string, unknown> = {}
+): Promise<void> {
+  const described = meta ? { filename: meta.filename ?? null, contentType: meta.contentType ?? null } : {};
+  if (target.output !== undefined) {
+    try {
+      await writeSecretFile(target.output, data, target.force ?? false);
+    } catch (error: any) {
+      throw new CliError(`Failed to write ${target.output}: ${error.message}. The stash has already been read.`);
+    }
+    writeResult(
+      { status: 'retrieved', id, output: target.output, bytes: data.length, ...described, ...extra },
+      `Wrote ${data.length} bytes to ${target.output}`
+    );
+  } else if (meta) {
+    const text = isUtf8(data);
+    if (isJsonOutput()) {
+      writeResult({
+        status: 'retrieved',
+        id,
+        secret: data.toString(text ? 'utf8' : 'base64'),
+        encoding: text ? 'utf8' : 'base64',
+        ...described,
+        ...extra
+      }, '');
+    } else {
+      // Exact bytes: no decoding, and a newline only for text the sender typed
+      await writeToStdout(data);
+      if (meta.trailingNewline) {
+        await writeToStdout(Buffer.from('\n'));
+      }
+      if (meta.filename) {
+        console.error(`File name: ${meta.filename} (save it with --output)`);
+      }
+    }
+  } else {
+    const plaintext = data.toString('utf8');
+    writeResult({ status: 'retrieved', id, secret: plaintext, ...extra }, plaintext);
+  }
+}
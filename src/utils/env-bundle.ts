@@ -0,0 +1,205 @@
+/**
+ * Dotenv bundles: several environment variables stashed as one secret
+ * The bundle is a JSON object of name -> value inside a plaintext envelope whose
+ * content type is ENV_BUNDLE_CONTENT_TYPE, so only the recipient learns the names.
+ * A single-value stash can be rendered the same way once it is given a name (destash --key).
+ */
+import { dump } from 'js-yaml';
+import { parseDotEnv } from './config';
+import { EnvelopeMetadata } from './envelope';
+import { validateEnvName } from './validation';
+import { ENV_BUNDLE_CONTENT_TYPE, ENV_FORMATS, MAX_ENV_BUNDLE_VARS } from './constants';
+
+export type EnvFormat = typeof ENV_FORMATS[number];
+
+/**
+ * Values are text, except a binary single-value stash, which only k8s-secret can hold
+ */
+export type EnvValue = string | Buffer;
+
+export interface K8sSecretTarget {
+  name: string;
+  namespace?: string;
+}
+
+// Kubernetes object names (DNS subdomain), namespaces (DNS label) and Secret data keys
+const K8S_NAME_REGEX = /^[a-z0-9]([-a-z0-9.]{0,251}[a-z0-9])?$/;
+const K8S_NAMESPACE_REGEX = /^[a-z0-9]([-a-z0-9]{0,61}[a-z0-9])?$/;
+const K8S_KEY_REGEX = /^[-._a-zA-Z0-9]{1,253}$/;
+
+export function validateK8sName(name: string): boolean {
+  return K8S_NAME_REGEX.test(name);
+}
+
+export function validateK8sNamespace(namespace: string): boolean {
+  return K8S_NAMESPACE_REGEX.test(namespace);
+}
+
+export function validateK8sKey(key: string): boolean {
+  return K8S_KEY_REGEX.test(key) && key !== '.' && key !== '..';
+}
+
+function textValue(name: string, value: EnvValue): string {
+  if (typeof value !== 'string') {
+    throw new Error(`${name} is binary; only --format k8s-secret can hold it`);
+  }
+  return value;
+}
+
+export function isEnvBundle(meta?: EnvelopeMetadata): boolean {
+  return meta?.contentType === ENV_BUNDLE_CONTENT_TYPE;
+}
+
+/**
+ * Pick variables from dotenv content: the named keys in that order, or all of them
+ * Throws when a requested key is missing
+ */
+export function selectFromDotEnv(content: string, keys?: string[]): Map<string, string> {
+  const all = new Map(parseDotEnv(content).map((entry) => [entry.name, entry.value]));
+  const selected = keys ? new Map(keys.map((key) => [key, all.get(key)])) : all;
+  const missing = [...selected].filter(([, value]) => value === undefined).map(([key]) => key);
+  if (missing.length) {
+    throw new Error(`not in the file: ${missing.join(', ')}`);
+  }
+  if (!selected.size) {
+    throw new Error('no variables to stash');
+  }
+  if (selected.size > MAX_ENV_BUNDLE_VARS) {
+    throw new Error(`too many variables (max ${MAX_ENV_BUNDLE_VARS})`);
+  }
+  return selected as Map<string, string>;
+}
+
+/**
+ * Serialize a bundle for encryption
+ * NOTE: Result contains the values; caller must zero it
+ */
+export function encodeEnvBundle(vars: Map<string, string>): Buffer {
+  return Buffer.from(JSON.stringify(Object.fromEntries(vars)), 'utf8');
+}
+
+/**
+ * Parse and validate a decrypted bundle
+ */
+export function decodeEnvBundle(data: Buffer): Map<string, string> {
+  let raw: any;
+  try {
+    raw = JSON.parse(data.toString('utf8'));
+  } catch {
+    throw new Error('Env bundle is not valid JSON');
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Env bundle must be an object');
+  }
+  const vars = new Map<string, string>();
+  for (const [name, value] of Object.entries(raw)) {
+    if (!validateEnvName(name) || typeof value !== 'string') {
+      throw new Error('Env bundle contains an invalid variable');
+    }
+    vars.set(name, value);
+  }
+  return vars;
+}
+
+/**
+ * Format a value for a dotenv file: bare when safe, 'single' quotes when possible
+ * (literal for every dotenv reader), "double" quotes with escapes otherwise
+ */
+function formatDotEnvValue(value: string): string {
+  if (/^[A-Za-z0-9_./:@%+,=-]*$/.test(value)) {
+    return value;
+  }
+  if (!/['\r\n]/.test(value)) {
+    return `'${value}'`;
+  }
+  return `"${value.replace(/[\\"\n\r\t]/g, (c) => ({ '\n': '\\n', '\r': '\\r', '\t': '\\t' } as Record<string, string>)[c] ?? `\\${c}`)}"`;
+}
+
+function formatDotEnvLine(name: string, value: string, exported = false): string {
+  return `${exported ? 'export ' : ''}${name}=${formatDotEnvValue(value)}`;
+}
+
+/**
+ * docker run --env-file takes every value literally up to the end of the line
+ */
+function formatDockerEnvLine(name: string, value: string): string {
+  if (/[\r\n]/.test(value)) {
+    throw new Error(`${name} spans several lines, which docker-env cannot hold`);
+  }
+  return `${name}=${value}`;
+}
+
+/**
+ * A v1 Secret manifest with base64 data, ready for kubectl apply -f -
+ */
+function renderK8sSecret(vars: Map<string, EnvValue>, target: K8sSecretTarget): string {
+  const data: Record<string, string> = {};
+  for (const [key, value] of vars) {
+    if (!validateK8sKey(key)) {
+      throw new Error(`${key} is not a valid Secret data key`);
+    }
+    data[key] = (typeof value === 'string' ? Buffer.from(value, 'utf8') : value).toString('base64');
+  }
+  return dump({
+    apiVersion: 'v1',
+    kind: 'Secret',
+    metadata: { name: target.name, ...(target.namespace ? { namespace: target.namespace } : {}) },
+    type: 'Opaque',
+    data
+  }, { lineWidth: -1 });
+}
+
+/**
+ * Render a bundle in one of the destash --format outputs (ends with a newline)
+ * k8s-secret needs a target name; every other format needs text values
+ */
+export function renderEnvBundle(vars: Map<string, EnvValue>, format: EnvFormat, k8s?: K8sSecretTarget): string {
+  if (format === 'k8s-secret') {
+    if (!k8s) {
+      throw new Error('A Secret needs a name');
+    }
+    return renderK8sSecret(vars, k8s);
+  }
+  const entries = [...vars].map(([name, value]): [string, string] => [name, textValue(name, value)]);
+  switch (format) {
+    case 'dotenv':
+      return entries.map(([name, value]) => formatDotEnvLine(name, value)).join('\n') + '\n';
+    case 'shell-export':
+      // POSIX single quotes are literal; an embedded ' becomes '\''
+      return entries.map(([name, value]) => `export ${name}='${value.replace(/'/g, `'\\''`)}'`).join('\n') + '\n';
+    case 'json':
+      return JSON.stringify(Object.fromEntries(entries), null, 2) + '\n';
+    case 'yaml':
+      return dump(Object.fromEntries(entries), { lineWidth: -1 });
+    case 'docker-env':
+      return entries.map(([name, value]) => formatDockerEnvLine(name, value)).join('\n') + '\n';
+  }
+}
+
+/**
+ * Update dotenv content in place: assignments of bundled names are rewritten where they
+ * stand (keeping `export`), new names are appended, and every other line is left alone
+ */
+export function mergeDotEnv(content: string, vars: Map<string, EnvValue>): { content: string; updated: string[]; added: string[] } {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content.split(/\r?\n/);
+  const updated = new Set<string>();
+  const out: string[] = [];
+  let next = 0;
+  for (const entry of parseDotEnv(content)) {
+    const value = vars.get(entry.name);
+    if (value === undefined) continue;
+    out.push(...lines.slice(next, entry.firstLine), formatDotEnvLine(entry.name, textValue(entry.name, value), entry.exported));
+    next = entry.lastLine + 1;
+    updated.add(entry.name);
+  }
+  out.push(...lines.slice(next));
+
+  const added = [...vars.keys()].filter((name) => !updated.has(name));
+  if (added.length) {
+    // Keep the file's final newline after the appended lines
+    if (out.length && out[out.length - 1] === '') out.pop();
+    out.push(...added.map((name) => formatDotEnvLine(name, textValue(name, vars.get(name)!))), '');
+  }
+  return { content: out.join(eol), updated: [...updated], added };
+}
@@ -0,0 +1,95 @@
+/**
+ * Plaintext envelope: metadata about a secret, encrypted together with it
+ * Layout is one line of JSON, a newline, then the secret bytes unchanged.
+ * JSON.stringify never emits a raw newline, so the first one ends the metadata.
+ * Payloads using it say so in their header (plaintext: 'envelope').
+ */
+import { basename } from 'path';
+import { isUtf8 } from 'buffer';
+
+export interface EnvelopeMetadata {
+  filename?: string; // Base name only, never a path
+  contentType?: string;
+  trailingNewline?: boolean; // Print a newline after the secret (text typed or passed as arguments)
+}
+
+export interface OpenedEnvelope {
+  meta: EnvelopeMetadata;
+  data: Buffer; // View into the decrypted bytes; zeroing those zeroes this
+}
+
+const CONTENT_TYPE_REGEX = /^[A-Za-z0-9!#$&^_.+-]{1,64}\/[A-Za-z0-9!#$&^_.+-]{1,64}$/;
+const MAX_FILENAME_LENGTH = 255;
+
+export function validateContentType(contentType: string): boolean {
+  return CONTENT_TYPE_REGEX.test(contentType);
+}
+
+/**
+ * Filenames come from the sender, so only plain base names are accepted
+ */
+export function validateFilename(filename: string): boolean {
+  return filename.length > 0 &&
+    filename.length <= MAX_FILENAME_LENGTH &&
+    filename === basename(filename) &&
+    filename !== '.' && filename !== '..' &&
+    !/[\\/\0-\x1f\x7f]/.test(filename);
+}
+
+/**
+ * Best-effort content type when none was given: text if the bytes are UTF-8
+ */
+export function guessContentType(data: Buffer): string {
+  return isUtf8(data) ? 'text/plain' : 'application/octet-stream';
+}
+
+/**
+ * Frame a secret with its metadata
+ * NOTE: Result contains the secret; caller must zero it
+ */
+export function encodeEnvelope(meta: EnvelopeMetadata, data: Buffer): Buffer {
+  const header = Buffer.from(JSON.stringify(meta) + '\n', 'utf8');
+  return Buffer.concat([header, data]);
+}
+
+/**
+ * Split decrypted bytes into metadata and the secret
+ * Unknown fields are dropped; invalid ones are rejected
+ */
+export function decodeEnvelope(bytes: Buffer): OpenedEnvelope {
+  const end = bytes.indexOf(0x0a);
+  if (end === -1) {
+    throw new Error('Plaintext envelope is missing its metadata line');
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(bytes.subarray(0, end).toString('utf8'));
+  } catch {
+    throw new Error('Plaintext envelope metadata is not valid JSON');
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Plaintext envelope metadata must be an object');
+  }
+
+  const meta: EnvelopeMetadata = {};
+  if (raw.filename !== undefined) {
+    if (typeof raw.filename !== 'string' || !validateFilename(raw.filename)) {
+      throw new Error('Plaintext envelope has an invalid filename');
+    }
+    meta.filename = raw.filename;
+  }
+  if (raw.contentType !== undefined) {
+    if (typeof raw.contentType !== 'string' || !validateContentType(raw.contentType)) {
+      throw new Error('Plaintext envelope has an invalid content type');
+    }
+    meta.contentType = raw.contentType;
+  }
+  if (raw.trailingNewline !== undefined) {
+    if (typeof raw.trailingNewline !== 'boolean') {
+      throw new Error('Plaintext envelope has an invalid trailingNewline flag');
+    }
+    meta.trailingNewline = raw.trailingNewline;
+  }
+  return { meta, data: bytes.subarray(end + 1) };
+}
@@ -0,0 +1,98 @@
+/**
+ * Run a command with a secret handed to it (destash --env-var / --stdin)
+ * The secret goes into the child's environment or onto its stdin, never to our stdout.
+ * We stay in the foreground as a thin parent: signals are passed on and the
+ * child's exit status becomes ours.
+ */
+import { spawn, ChildProcess } from 'child_process';
+import { accessSync, statSync, constants as fsConstants } from 'fs';
+import { constants as osConstants } from 'os';
+import { delimiter, join } from 'path';
+import { Writable } from 'stream';
+
+const FORWARDED_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGHUP', 'SIGQUIT'];
+
+export interface SecretDelivery {
+  env?: Record<string, string>; // Added to our environment for the child
+  input?: Buffer[]; // Written to the child's stdin, which is then closed
+}
+
+function isExecutableFile(path: string): boolean {
+  try {
+    accessSync(path, fsConstants.X_OK);
+    return statSync(path).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve a command the way the shell would (names with a slash are paths)
+ * Lets callers refuse a missing command before the stash is burned
+ */
+export function findExecutable(name: string): string | undefined {
+  if (name.includes('/')) {
+    return isExecutableFile(name) ? name : undefined;
+  }
+  for (const dir of (process.env.PATH ?? '').split(delimiter)) {
+    if (dir && isExecutableFile(join(dir, name))) {
+      return join(dir, name);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Write to a stream and wait until the chunk is handed off
+ * A child that exits without reading its stdin is not an error here
+ */
+function writeChunk(stream: Writable, chunk: Buffer): Promise<void> {
+  return new Promise((resolve) => {
+    stream.write(chunk, () => resolve());
+  });
+}
+
+/**
+ * Start the command with the secret delivered, forwarding our signals to it
+ * Resolves once the child is running and its input (if any) is written, so the
+ * caller can zero its buffers; rejects if the command cannot be started
+ */
+export async function spawnWithSecret(command: string[], delivery: SecretDelivery): Promise<ChildProcess> {
+  const child = spawn(command[0], command.slice(1), {
+    stdio: [delivery.input ? 'pipe' : 'inherit', 'inherit', 'inherit'],
+    env: { ...process.env, ...delivery.env }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    child.once('spawn', resolve);
+    child.once('error', reject);
+  });
+  child.on('error', () => undefined); // e.g. kill() after it exited; the exit status still arrives
+  for (const signal of FORWARDED_SIGNALS) {
+    process.on(signal, () => child.kill(signal));
+  }
+
+  if (delivery.input && child.stdin) {
+    child.stdin.on('error', () => undefined); // EPIPE when the child ignores stdin
+    for (const chunk of delivery.input) {
+      await writeChunk(child.stdin, chunk);
+    }
+    child.stdin.end();
+  }
+  return child;
+}
+
+/**
+ * Wait for the child and exit with its status (128 + signal number if it was killed)
+ */
+export function exitWithChild(child: ChildProcess): Promise<never> {
+  const exit = (code: number | null, signal: NodeJS.Signals | null): never =>
+    process.exit(code ?? 128 + (signal ? osConstants.signals[signal] ?? 0 : 0));
+  return new Promise(() => {
+    // It may already be gone if it never read its input
+    if (child.exitCode !== null || child.signalCode !== null) {
+      exit(child.exitCode, child.signalCode);
+    }
+    child.once('exit', exit);
+  });
+}
@@ -21,11 +21,14 @@ function isRetryableError(error: unknown): error is Error {
   );
 }
 
-function delay(ms: number): Promise<void> {
+export function delay(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-function computeBackoff(attempt: number, base: number, max: number): number {
+/**
+ * Exponential backoff with up to a second of jitter, capped at max
+ */
+export function computeBackoff(attempt: number, base: number, max: number): number {
   return Math.min(base * Math.pow(2, attempt) + Math.random() * 1000, max);
 }
 
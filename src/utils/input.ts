@@ -1,4 +1,6 @@
-import { MAX_SECRET_LENGTH, STDIN_TIMEOUT } from './constants';
+import { createReadStream, openSync, closeSync } from 'fs';
+import { ReadStream } from 'tty';
+import { MAX_SECRET_LENGTH, MAX_PASSPHRASE_LENGTH, STDIN_TIMEOUT } from './constants';
 
 const MAX_STDIN_SIZE = MAX_SECRET_LENGTH;
 
@@ -6,7 +8,7 @@ const MAX_STDIN_SIZE = MAX_SECRET_LENGTH;
  * Read secret content from stdin as binary data (for enstash --stdin)
  * Returns Buffer to minimize string copies in memory
  */
-export async function readFromStdin(signal?: AbortSignal): Promise<Buffer> {
+export async function readFromStdin(signal?: AbortSignal, maxSize: number = MAX_STDIN_SIZE): Promise<Buffer> {
   if (process.stdin.isTTY) {
     throw new Error('No stdin detected (TTY). Pipe data in or use command line arguments.');
   }
@@ -53,8 +55,8 @@ export async function readFromStdin(signal?: AbortSignal): Promise<Buffer> {
     const onData = (chunk: Buffer) => {
       if (done) return;
       total += chunk.length;
-      if (total > MAX_STDIN_SIZE) {
-        return finish(new Error(`Stdin input exceeds maximum size (${MAX_STDIN_SIZE} bytes)`));
+      if (total > maxSize) {
+        return finish(new Error(`Stdin input exceeds maximum size (${maxSize} bytes)`));
       }
       chunks.push(chunk);
       // Activity: extend the timeout
@@ -91,4 +93,160 @@ export async function readFromStdin(signal?: AbortSignal): Promise<Buffer> {
     // Start the timer after all handlers are set up
     resetTimer();
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Read secret content from a file as binary data (for enstash --file)
+ * Streamed so an oversized file is rejected without reading all of it
+ * Returns Buffer; caller must zero it with zeroBuffer()
+ */
+export async function readFromFile(path: string, maxSize: number = MAX_STDIN_SIZE): Promise<Buffer> {
+  const stream = createReadStream(path);
+  const chunks: Buffer[] = [];
+  let total = 0;
+  try {
+    for await (const chunk of stream as AsyncIterable<Buffer>) {
+      total += chunk.length;
+      if (total > maxSize) {
+        chunk.fill(0);
+        throw new Error(`File exceeds maximum size (${maxSize} bytes)`);
+      }
+      chunks.push(chunk);
+    }
+    if (!total) {
+      throw new Error('File is empty');
+    }
+    return Buffer.concat(chunks, total);
+  } finally {
+    stream.destroy();
+    // Zero intermediate chunks after we're done with them
+    for (const b of chunks) b.fill(0);
+  }
+}
+
+/**
+ * Open the controlling terminal for prompting
+ * Falls back to /dev/tty when stdin is in use for piped data
+ */
+function openTerminal(): { input: ReadStream; close: () => void } {
+  if (process.stdin.isTTY) {
+    return { input: process.stdin as ReadStream, close: () => process.stdin.pause() };
+  }
+  let fd: number;
+  try {
+    fd = openSync('/dev/tty', 'r');
+  } catch {
+    throw new Error('No terminal available for prompting');
+  }
+  const input = new ReadStream(fd);
+  return {
+    input,
+    close: () => {
+      input.destroy();
+      try { closeSync(fd); } catch { /* already closed by destroy() */ }
+    }
+  };
+}
+
+interface TerminalReadOptions {
+  maxLength: number;
+  mask?: boolean; // Echo '*' per character instead of nothing
+  multiline?: boolean; // Enter adds a newline and only Ctrl-D finishes
+}
+
+/**
+ * Read keystrokes from the terminal in raw mode into a single Buffer
+ * Prompt and echo go to stderr so stdout stays clean for tokens/plaintext
+ */
+async function readFromTerminal(prompt: string, options: TerminalReadOptions): Promise<Buffer> {
+  const { maxLength, mask = false, multiline = false } = options;
+  const { input, close } = openTerminal();
+
+  return new Promise((resolve, reject) => {
+    const work = Buffer.alloc(maxLength);
+    let length = 0;
+    let lastByte = 0;
+    let done = false;
+
+    const finish = (err?: Error) => {
+      if (done) return;
+      done = true;
+      input.off('data', onData);
+      input.setRawMode(false);
+      close();
+      process.stderr.write('\n');
+      const out = err ? undefined : Buffer.from(work.subarray(0, length));
+      work.fill(0);
+      if (err) reject(err);
+      else resolve(out!);
+    };
+
+    const append = (byte: number): boolean => {
+      if (length >= maxLength) {
+        finish(new Error(`Input exceeds maximum length (${maxLength} bytes)`));
+        return false;
+      }
+      work[length++] = byte;
+      return true;
+    };
+
+    const onData = (chunk: Buffer) => {
+      try {
+        for (const byte of chunk) {
+          const previous = lastByte;
+          lastByte = byte;
+          if (byte === 0x0d || byte === 0x0a) { // Enter (pasted text may send CR LF)
+            if (!multiline) {
+              return finish();
+            }
+            if (byte === 0x0a && previous === 0x0d) continue;
+            if (!append(0x0a)) return;
+            process.stderr.write('\r\n');
+            continue;
+          }
+          if (byte === 0x03) { // Ctrl+C
+            return finish(new Error('Interrupted by user (Ctrl+C)'));
+          }
+          if (byte === 0x04) { // Ctrl+D
+            return finish(length ? undefined : new Error('No input received'));
+          }
+          if (byte === 0x7f || byte === 0x08) { // Backspace: drop a whole UTF-8 character, never a newline
+            if (length === 0 || work[length - 1] === 0x0a) continue;
+            while (length > 0 && (work[length - 1] & 0xc0) === 0x80) length--;
+            if (length > 0) length--;
+            if (mask) process.stderr.write('\b \b');
+            continue;
+          }
+          if (!append(byte)) return;
+          // One '*' per character: skip UTF-8 continuation bytes
+          if (mask && (byte & 0xc0) !== 0x80) process.stderr.write('*');
+        }
+      } finally {
+        // Keystrokes are sensitive too
+        chunk.fill(0);
+      }
+    };
+
+    process.stderr.write(prompt);
+    input.setRawMode(true);
+    input.on('data', onData);
+    input.resume();
+  });
+}
+
+/**
+ * Prompt on the terminal and read one line without echoing it (for passphrases)
+ * Returns Buffer; caller must zero it with zeroBuffer()
+ */
+export async function readHiddenLine(prompt: string, maxLength: number = MAX_PASSPHRASE_LENGTH): Promise<Buffer> {
+  return readFromTerminal(prompt, { maxLength });
+}
+
+/**
+ * Prompt on the terminal and read input echoed as '*' (for secrets typed interactively)
+ * Single-line mode ends at Enter; multi-line mode keeps newlines and ends at Ctrl-D
+ * Returns Buffer; caller must zero it with zeroBuffer()
+ */
+export async function readMaskedInput(prompt: string, maxLength: number, multiline: boolean = false): Promise<Buffer> {
+  return readFromTerminal(prompt, { maxLength, mask: true, multiline });
+}
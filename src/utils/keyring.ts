@@ -0,0 +1,115 @@
+/**
+ * Local keyring of X25519 keys for public-key recipients
+ * Identities (generated here) hold a private key; imported contacts hold only a public key.
+ * Stored as JSON, readable by the owner only.
+ */
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { isX25519Key, keyId, X25519KeyPair } from './crypto';
+import { CliError } from './output';
+import { PUBLIC_KEY_PREFIX } from './constants';
+
+export interface KeyringEntry {
+  name: string;
+  publicKey: string; // base64url raw X25519 public key
+  privateKey?: string; // Only on identities generated with `keys generate`
+  createdAt: string;
+}
+
+export interface Keyring {
+  version: 1;
+  keys: KeyringEntry[];
+}
+
+// Names are used on the command line (--to alice), so keep them simple
+const KEY_NAME_REGEX = /^[A-Za-z0-9._-]{1,64}$/;
+
+/**
+ * Default keyring location ($XDG_DATA_HOME/stasher/keyring.json)
+ */
+export function getKeyringPath(): string {
+  const base = process.env.XDG_DATA_HOME || join(homedir(), '.local', 'share');
+  return join(base, 'stasher', 'keyring.json');
+}
+
+export function validateKeyName(name: string): boolean {
+  return KEY_NAME_REGEX.test(name);
+}
+
+/**
+ * Format a public key for sharing (x25519:<base64url>)
+ */
+export function formatPublicKey(publicKey: string): string {
+  return `${PUBLIC_KEY_PREFIX}${publicKey}`;
+}
+
+/**
+ * Parse a shared public key, with or without the x25519: prefix
+ */
+export function parsePublicKey(input: string): string | null {
+  const s = input.trim();
+  const raw = s.startsWith(PUBLIC_KEY_PREFIX) ? s.slice(PUBLIC_KEY_PREFIX.length) : s;
+  return isX25519Key(raw) ? raw : null;
+}
+
+/**
+ * Load the keyring; a missing file is an empty keyring
+ */
+export async function loadKeyring(path: string = getKeyringPath()): Promise<Keyring> {
+  let content: string;
+  try {
+    content = await fs.readFile(path, 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return { version: 1, keys: [] };
+    }
+    throw new CliError(`Cannot read keyring ${path}: ${error.message}`);
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    throw new CliError(`Keyring ${path} is not valid JSON`);
+  }
+  if (!raw || raw.version !== 1 || !Array.isArray(raw.keys)) {
+    throw new CliError(`Keyring ${path} has an unsupported format`);
+  }
+  for (const entry of raw.keys) {
+    if (!entry || !validateKeyName(entry.name) || !isX25519Key(entry.publicKey) ||
+        (entry.privateKey !== undefined && !isX25519Key(entry.privateKey))) {
+      throw new CliError(`Keyring ${path} contains an invalid entry`);
+    }
+  }
+  return raw as Keyring;
+}
+
+/**
+ * Save the keyring (write-then-rename, owner-only permissions)
+ */
+export async function saveKeyring(keyring: Keyring, path: string = getKeyringPath()): Promise<void> {
+  await fs.mkdir(dirname(path), { recursive: true, mode: 0o700 });
+  // Unique per save: two `keys` runs at once must not swap in each other's file
+  const tmp = `${path}.${randomUUID()}.tmp`;
+  try {
+    await fs.writeFile(tmp, JSON.stringify(keyring, null, 2) + '\n', { flag: 'wx', mode: 0o600 });
+    await fs.rename(tmp, path);
+  } catch (error) {
+    await fs.rm(tmp, { force: true });
+    throw error;
+  }
+}
+
+export function findKey(keyring: Keyring, name: string): KeyringEntry | undefined {
+  return keyring.keys.find((entry) => entry.name === name);
+}
+
+/**
+ * Find the local identity whose public key has the given key id
+ */
+export function findIdentity(keyring: Keyring, kid: string): X25519KeyPair | undefined {
+  const entry = keyring.keys.find((e) => e.privateKey && keyId(e.publicKey) === kid);
+  return entry ? { publicKey: entry.publicKey, privateKey: entry.privateKey! } : undefined;
+}
@@ -0,0 +1,149 @@
+/**
+ * Local record of stashes created on this machine ($XDG_STATE_HOME/stasher/ledger.json)
+ * Holds ids, labels and revoke credentials so copies can be revoked later.
+ * Never holds a token key: a ledger entry can delete a stash but not read it.
+ */
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { dirname, join } from 'path';
+import { getStateDir } from './config';
+import { PartCredential } from './chunking';
+import { CliError, ErrorCode } from './output';
+import { LEDGER_RETENTION_MS } from './constants';
+
+/**
+ * Why a stash is no longer live, as far as this machine knows
+ */
+export type LedgerOutcome = 'revoked' | 'consumed' | 'expired' | 'not_found';
+
+/**
+ * Locally known status: active means not expired and not closed by us (it may have been read)
+ */
+export type LedgerStatus = 'active' | LedgerOutcome;
+
+export interface LedgerEntry {
+  id: string;
+  label?: string;
+  createdAt: string;
+  expiresAt?: string;
+  revokeCredential: string; // From deriveRevokeCredential()
+  parts?: PartCredential[]; // Parts of a chunked stash, deleted along with it
+  closed?: { at: string; outcome: LedgerOutcome }; // Set when revoke/unstash learned its fate
+}
+
+interface Ledger {
+  version: 1;
+  stashes: LedgerEntry[];
+}
+
+export function getLedgerPath(): string {
+  return join(getStateDir(), 'ledger.json');
+}
+
+/**
+ * Read all ledger entries; a missing file is an empty ledger
+ */
+export async function readLedger(path: string = getLedgerPath()): Promise<LedgerEntry[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(path, 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return [];
+    }
+    throw new CliError(`Cannot read ledger ${path}: ${error.message}`);
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    throw new CliError(`Ledger ${path} is not valid JSON`);
+  }
+  if (!raw || raw.version !== 1 || !Array.isArray(raw.stashes)) {
+    throw new CliError(`Ledger ${path} has an unsupported format`);
+  }
+  return raw.stashes.filter((e: any) =>
+    e && typeof e.id === 'string' && typeof e.createdAt === 'string' && typeof e.revokeCredential === 'string' &&
+    (e.parts === undefined || (Array.isArray(e.parts) &&
+      e.parts.every((p: any) => p && typeof p.id === 'string' && typeof p.revokeCredential === 'string'))));
+}
+
+/**
+ * Replace the ledger contents (write-then-rename, owner-only permissions)
+ */
+export async function writeLedger(entries: LedgerEntry[], path: string = getLedgerPath()): Promise<void> {
+  await fs.mkdir(dirname(path), { recursive: true, mode: 0o700 });
+  const ledger: Ledger = { version: 1, stashes: entries };
+  // A temp file per writer, so concurrent runs never rename each other's half-written file
+  const tmp = `${path}.${randomUUID()}.tmp`;
+  try {
+    await fs.writeFile(tmp, JSON.stringify(ledger, null, 2) + '\n', { flag: 'wx', mode: 0o600 });
+    await fs.rename(tmp, path);
+  } catch (error) {
+    await fs.rm(tmp, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Status of an entry from local knowledge only (no network)
+ */
+export function ledgerStatus(entry: LedgerEntry, now: number = Date.now()): LedgerStatus {
+  if (entry.closed) {
+    return entry.closed.outcome;
+  }
+  return entry.expiresAt && Date.parse(entry.expiresAt) <= now ? 'expired' : 'active';
+}
+
+/**
+ * Read-modify-write the ledger, dropping entries long past their expiry
+ */
+export async function updateLedger(
+  update: (entries: LedgerEntry[]) => LedgerEntry[],
+  path: string = getLedgerPath()
+): Promise<void> {
+  const cutoff = Date.now() - LEDGER_RETENTION_MS;
+  const kept = (await readLedger(path)).filter((entry) =>
+    Date.parse(entry.expiresAt ?? entry.createdAt) > cutoff);
+  await writeLedger(update(kept), path);
+}
+
+export async function appendToLedger(entries: LedgerEntry[], path: string = getLedgerPath()): Promise<void> {
+  await updateLedger((existing) => [...existing, ...entries], path);
+}
+
+/**
+ * Map a failed delete onto a ledger outcome when the error says the stash is gone anyway
+ */
+export function outcomeFromError(error: unknown): LedgerOutcome | undefined {
+  const outcomes: Partial<Record<ErrorCode, LedgerOutcome>> = { not_found: 'not_found', expired: 'expired', consumed: 'consumed' };
+  return error instanceof CliError ? outcomes[error.code] : undefined;
+}
+
+/**
+ * Record what happened to stashes we tried to delete
+ */
+export async function closeLedgerEntries(outcomes: Map<string, LedgerOutcome>, path: string = getLedgerPath()): Promise<void> {
+  const at = new Date().toISOString();
+  await updateLedger((entries) => entries.map((entry) => {
+    const outcome = outcomes.get(entry.id);
+    return outcome ? { ...entry, closed: { at, outcome } } : entry;
+  }), path);
+}
+
+/**
+ * Close the entries of stashes the server reported gone, where created here and still open
+ * Best effort: the ledger only mirrors what the server knows, so callers report their
+ * result whether or not it could be updated
+ */
+export async function noteGoneInLedger(outcomes: Map<string, LedgerOutcome>, path: string = getLedgerPath()): Promise<void> {
+  try {
+    const open = (await readLedger(path)).filter((entry) => !entry.closed && outcomes.has(entry.id));
+    if (open.length) {
+      await closeLedgerEntries(new Map(open.map((entry) => [entry.id, outcomes.get(entry.id)!])), path);
+    }
+  } catch {
+    // Ignored: see above
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Shared output and error reporting for all commands
+ * Human-readable by default; one JSON object per run with --json
+ * (enstash --wait adds a second one once the outcome is known)
+ */
+
+/**
+ * Stable error codes reported in --json mode, with their exit codes:
+ * 0 = success
+ * 1 = general error
+ * 2 = invalid input format
+ * 3 = stash not found
+ * 4 = stash expired or already consumed
+ * 5 = network/timeout error
+ * 6 = decryption/authentication failure
+ * 7 = revoke credential missing or rejected
+ * 8 = gave up waiting (--wait timeout)
+ */
+export const EXIT_CODES = {
+  general_error: 1,
+  invalid_input: 2,
+  not_found: 3,
+  expired: 4,
+  consumed: 4,
+  network_error: 5,
+  decryption_failed: 6,
+  forbidden: 7,
+  timeout: 8
+} as const;
+
+export type ErrorCode = keyof typeof EXIT_CODES;
+
+/**
+ * Error carrying a stable error code, thrown by shared helpers (API calls etc.)
+ * Commands turn it into output and an exit code with exitWithError()
+ */
+export class CliError extends Error {
+  constructor(message: string, public readonly code: ErrorCode = 'general_error') {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+let jsonOutput = false;
+
+/**
+ * Switch between human-readable and JSON output (set once at startup)
+ */
+export function setJsonOutput(enabled: boolean): void {
+  jsonOutput = enabled;
+}
+
+export function isJsonOutput(): boolean {
+  return jsonOutput;
+}
+
+/**
+ * Report a failure and exit with the code mapped from its error code
+ * JSON errors go to stdout so scripts only need to parse one stream;
+ * details (if any) are added next to the error in JSON mode
+ */
+export function exitWithMessage(msg: string, code: ErrorCode = 'general_error', details: Record<string, unknown> = {}): never {
+  const exitCode = EXIT_CODES[code];
+  if (jsonOutput) {
+    process.stdout.write(JSON.stringify({ ok: false, ...details, error: { code, exitCode, message: msg } }) + '\n');
+  } else {
+    console.error(msg);
+  }
+  process.exit(exitCode);
+}
+
+/**
+ * Report any thrown error: CliErrors keep their code, anything else uses the fallback
+ */
+export function exitWithError(error: unknown, fallbackMsg: string, fallbackCode: ErrorCode = 'general_error'): never {
+  if (error instanceof CliError) {
+    exitWithMessage(error.message, error.code);
+  }
+  exitWithMessage(fallbackMsg, fallbackCode);
+}
+
+/**
+ * Print a successful result: the structured object in JSON mode, text otherwise
+ */
+export function writeResult(result: Record<string, unknown>, text: string): void {
+  if (jsonOutput) {
+    process.stdout.write(JSON.stringify({ ok: true, ...result }) + '\n');
+  } else {
+    process.stdout.write(text + '\n');
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Shamir secret sharing over GF(256), byte by byte
+ * Each byte of the secret is the constant term of a random polynomial of degree
+ * threshold - 1; share x holds the polynomial evaluated at x for every byte.
+ * Any threshold shares recover the secret; fewer reveal nothing about it.
+ */
+import { randomBytes } from 'crypto';
+
+export interface Share {
+  x: number; // 1..255; x = 0 would be the secret itself
+  y: Buffer;
+}
+
+// Log/exp tables for GF(2^8) with the AES polynomial x^8 + x^4 + x^3 + x + 1 (generator 3)
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+for (let i = 0, v = 1; i < 255; i++) {
+  EXP[i] = EXP[i + 255] = v;
+  LOG[v] = i;
+  v ^= (v << 1) ^ (v & 0x80 ? 0x11b : 0); // v *= 3
+}
+
+function mul(a: number, b: number): number {
+  return a && b ? EXP[LOG[a] + LOG[b]] : 0;
+}
+
+function div(a: number, b: number): number {
+  return a ? EXP[LOG[a] + 255 - LOG[b]] : 0;
+}
+
+/**
+ * Split a secret into count shares, any threshold of which recover it
+ * NOTE: Caller must zero the returned share buffers
+ */
+export function splitSecret(secret: Buffer, count: number, threshold: number): Share[] {
+  if (!Number.isInteger(threshold) || !Number.isInteger(count) || threshold < 2 || count < threshold || count > 255) {
+    throw new Error('Shares need 2 <= threshold <= count <= 255');
+  }
+  const shares: Share[] = Array.from({ length: count }, (_, i) => ({ x: i + 1, y: Buffer.alloc(secret.length) }));
+  const coefficients = randomBytes(threshold - 1);
+  try {
+    for (let byte = 0; byte < secret.length; byte++) {
+      randomBytes(threshold - 1).copy(coefficients);
+      for (const share of shares) {
+        // Horner's rule, highest coefficient first
+        let y = 0;
+        for (let c = threshold - 2; c >= 0; c--) {
+          y = mul(y, share.x) ^ coefficients[c];
+        }
+        share.y[byte] = mul(y, share.x) ^ secret[byte];
+      }
+    }
+    return shares;
+  } finally {
+    coefficients.fill(0);
+  }
+}
+
+/**
+ * Recover the secret from shares by Lagrange interpolation at x = 0
+ * Any set of distinct shares works; with fewer than the threshold the result is garbage,
+ * so callers must verify it independently
+ * NOTE: Caller must zero the returned buffer
+ */
+export function combineShares(shares: Share[]): Buffer {
+  if (!shares.length) {
+    throw new Error('No shares to combine');
+  }
+  const length = shares[0].y.length;
+  const xs = new Set(shares.map((s) => s.x));
+  if (xs.size !== shares.length || shares.some((s) => s.x < 1 || s.x > 255 || s.y.length !== length)) {
+    throw new Error('Shares must have distinct indexes and equal lengths');
+  }
+
+  // Lagrange basis at 0: prod(x_j / (x_j - x_i)); subtraction is XOR in GF(2^8)
+  const basis = shares.map((si) => shares.reduce(
+    (acc, sj) => (sj === si ? acc : mul(acc, div(sj.x, sj.x ^ si.x))), 1));
+
+  const secret = Buffer.alloc(length);
+  for (let byte = 0; byte < length; byte++) {
+    let value = 0;
+    for (const [i, share] of shares.entries()) {
+      value ^= mul(share.y[byte], basis[i]);
+    }
+    secret[byte] = value;
+  }
+  return secret;
+}
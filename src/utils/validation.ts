@@ -1,7 +1,17 @@
 /**
  * Validation utilities used across all CLI commands
  */
-import { KEY_LENGTH, MAX_SECRET_LENGTH } from './constants';
+import {
+    KEY_LENGTH,
+    KEY_CHECK_LENGTH,
+    MAX_SECRET_LENGTH,
+    MIN_TTL_SECONDS,
+    MAX_TTL_SECONDS,
+    MAX_READS_LIMIT,
+    REVOKE_TOKEN_PREFIX,
+    REQUEST_CODE_PREFIX
+} from './constants';
+import { CliError } from './output';
 
 // UUID v4 format validation (used by destash and unstash)
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
@@ -9,8 +19,23 @@ const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9
 const BASE64_REGEX = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
 // Tightened base64url regex - requires at least one character
 const BASE64URL_REGEX = /^[A-Za-z0-9_-]+$/;
-// Stash format (uuid:key) validation - accepts both base64 and base64url keys
-const STASH_FORMAT_REGEX = /^([0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}):([A-Za-z0-9+/=_-]+)$/i;
+// Environment variable names (enstash --from-env, destash --env-var)
+const ENV_NAME_REGEX = /^[A-Za-z_][A-Za-z0-9_]*$/;
+// Stash format (uuid:key[.check]) validation - accepts both base64 and base64url keys
+const STASH_FORMAT_REGEX = /^([0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}):([A-Za-z0-9+/=_-]+)(?:\.([A-Za-z0-9_-]+))?$/i;
+// Revoke token (revoke:uuid:credential); the credential is an unpadded base64url HMAC-SHA256
+const REVOKE_TOKEN_REGEX = new RegExp(
+    `^${REVOKE_TOKEN_PREFIX}:([0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}):([A-Za-z0-9_-]{43})$`, 'i');
+// Request code (request:uuid:publickey); the public key is a raw X25519 key in base64url
+const REQUEST_CODE_REGEX = new RegExp(
+    `^${REQUEST_CODE_PREFIX}:([0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}):([A-Za-z0-9_-]{43})$`, 'i');
+// Share link path ending in /s/<uuid>
+const LINK_PATH_REGEX = /\/s\/([0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12})\/?$/i;
+// Duration like 90s, 10m, 2h, 7d (bare numbers are seconds)
+const DURATION_REGEX = /^(\d+)\s*([smhd]?)$/i;
+const DURATION_UNITS: Record<string, number> = { '': 1, s: 1, m: 60, h: 3600, d: 86400 };
+// Key check value is KEY_CHECK_LENGTH bytes as unpadded base64url
+const KEY_CHECK_CHARS = Math.ceil(KEY_CHECK_LENGTH * 4 / 3);
 
 /**
  * Compute decoded length of base64/base64url string without allocation
@@ -31,7 +56,7 @@ function decodedLenB64Any(s: string): number {
     return Math.floor(((len + addPad) * 3) / 4) - addPad;
 }
 export type StashParseResult =
-  | { success: true; data: { id: string; key: string } }
+  | { success: true; data: { id: string; key: string; check?: string } }
   | { success: false; error: string };
 
 /**
@@ -63,13 +88,45 @@ export function validateBase64(input: string): boolean {
 }
 
 /**
- * Validate and parse stash format (uuid:key) used by destash
+ * Convert a share link (https://host/s/<uuid>#<key>) into the bare token form
+ * Anything that is not an http(s) link is returned trimmed but otherwise unchanged;
+ * a link without a fragment yields just the uuid
+ * Throws an invalid_input CliError if the fragment is not valid percent-encoding
+ */
+export function normalizeStashInput(input: string): string {
+    const s = typeof input === 'string' ? input.trim() : '';
+    if (!/^https?:\/\//i.test(s)) {
+        return s;
+    }
+    let url: URL;
+    try {
+        url = new URL(s);
+    } catch {
+        return s;
+    }
+    const match = url.pathname.match(LINK_PATH_REGEX);
+    if (!match) {
+        return s;
+    }
+    let fragment: string;
+    try {
+        fragment = decodeURIComponent(url.hash.replace(/^#/, ''));
+    } catch {
+        throw new CliError('Invalid share link: the key after # is not valid percent-encoding. The stash was not touched.', 'invalid_input');
+    }
+    return fragment ? `${match[1]}:${fragment}` : match[1];
+}
+
+/**
+ * Validate and parse stash format (uuid:key[.check]) used by destash
+ * Share links are accepted and normalized first
+ * Syntax only; the check value itself is verified by decodeStashToken()
  */
 export function validateAndParseStashFormat(input: string): StashParseResult {
     if (typeof input !== 'string') {
         return { success: false, error: 'Stash token must be a string' };
     }
-    const s = input.trim();
+    const s = normalizeStashInput(input);
     if (!s) {
         return { success: false, error: 'Stash token is empty' };
     }
@@ -89,7 +146,10 @@ export function validateAndParseStashFormat(input: string): StashParseResult {
         return { success: false, error: 'Invalid stash token format' };
     }
     
-    const [, id, key] = match;
+    const [, id, key, check] = match;
+    if (check !== undefined && check.length !== KEY_CHECK_CHARS) {
+        return { success: false, error: 'Invalid token check value' };
+    }
     // Additional validation: ensure key is valid base64/base64url
     if (!validateBase64(key)) {
         return { success: false, error: 'Invalid base64url key' };
@@ -113,12 +173,35 @@ export function validateAndParseStashFormat(input: string): StashParseResult {
         return { success: false, error: 'Invalid base64/base64url key' };
     }
     
-    return { success: true, data: { id, key } };
+    return { success: true, data: { id, key, check } };
+}
+/**
+ * Parse a revoke token printed by enstash --print-revoke-token; null if it isn't one
+ */
+export function parseRevokeToken(input: string): { id: string; credential: string } | null {
+    const match = typeof input === 'string' ? input.trim().match(REVOKE_TOKEN_REGEX) : null;
+    return match ? { id: match[1], credential: match[2] } : null;
+}
+
+/**
+ * Parse a request code printed by stasher request; null if it isn't one
+ */
+export function parseRequestCode(input: string): { id: string; publicKey: string } | null {
+    const match = typeof input === 'string' ? input.trim().match(REQUEST_CODE_REGEX) : null;
+    return match ? { id: match[1].toLowerCase(), publicKey: match[2] } : null;
+}
+
+/**
+ * Validate a recipient label for enstash --recipients (names, handles or emails)
+ */
+export function validateLabel(label: string): boolean {
+    return /^[A-Za-z0-9._@+-]{1,64}$/.test(label);
 }
+
 /**
  * Legacy function for backward compatibility - returns null on error
  */
-export function parseStashFormat(input: string): { id: string; key: string } | null {
+export function parseStashFormat(input: string): { id: string; key: string; check?: string } | null {
     const result = validateAndParseStashFormat(input);
     return result.success ? result.data! : null;
 }
@@ -157,7 +240,7 @@ export function validateSecretBufferContent(secretBuffer: Buffer): boolean {
 }
 
 /**
- * Validate stash token format (uuid:key)
+ * Validate stash token format (uuid:key[.check])
  * Explicit helper for clearer callsites
  */
 export function validateStashToken(token: string): boolean {
@@ -166,10 +249,10 @@ export function validateStashToken(token: string): boolean {
 }
 
 /**
- * Extract UUID from either full stash format (uuid:key) or just UUID
+ * Extract UUID from a full stash token (uuid:key[.check]), a share link, or just a UUID
  */
 export function extractUUID(input: string): string | null {
-    const s = typeof input === 'string' ? input.trim() : '';
+    const s = normalizeStashInput(input);
     // First try to parse as full stash format
     const stashParsed = validateAndParseStashFormat(s);
     if (stashParsed.success) {
@@ -178,3 +261,36 @@ export function extractUUID(input: string): string | null {
     // Then try as direct UUID
     return validateUUID(s) ? s : null;
 }
+
+/**
+ * Parse a duration string (90s, 10m, 2h, 7d) into seconds
+ * Returns null for malformed input
+ */
+export function parseDuration(input: string): number | null {
+    const match = typeof input === 'string' ? input.trim().match(DURATION_REGEX) : null;
+    if (!match) {
+        return null;
+    }
+    return parseInt(match[1], 10) * DURATION_UNITS[match[2].toLowerCase()];
+}
+
+/**
+ * Validate a stash TTL in seconds against the supported range
+ */
+export function validateTtl(seconds: number): boolean {
+    return Number.isInteger(seconds) && seconds >= MIN_TTL_SECONDS && seconds <= MAX_TTL_SECONDS;
+}
+
+/**
+ * Validate the number of reads allowed before a stash is burned
+ */
+export function validateMaxReads(maxReads: number): boolean {
+    return Number.isInteger(maxReads) && maxReads >= 1 && maxReads <= MAX_READS_LIMIT;
+}
+
+/**
+ * Validate an environment variable name
+ */
+export function validateEnvName(name: string): boolean {
+    return ENV_NAME_REGEX.test(name);
+}
@@ -0,0 +1,16 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * Read the CLI version from package.json
+ * Resolved relative to dist/utils so every command reports the published version
+ */
+export function getVersion(): string {
+    try {
+        const pkg = JSON.parse(readFileSync(join(__dirname, '..', '..', 'package.json'), 'utf8'));
+        return typeof pkg.version === 'string' ? pkg.version : 'unknown';
+    }
+    catch {
+        return 'unknown';
+    }
+}
@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes, randomUUID } from 'crypto';
+import { checkPayloadSize } from '../src/utils/api';
+import { digest, encodeManifest, parseManifest, splitIntoChunks, ManifestPart } from '../src/utils/chunking';
+import {
+  buildAad,
+  createKdfParams,
+  createPayload,
+  createPayloadHeader,
+  createRecipientKey,
+  deriveRevokeCredential,
+  encodeKey,
+  encrypt,
+  generateX25519KeyPair
+} from '../src/utils/crypto';
+import { CHUNK_SIZE, KEY_LENGTH, MAX_CHUNKED_SECRET_LENGTH, MAX_READS_LIMIT, MAX_TTL_SECONDS } from '../src/utils/constants';
+
+/**
+ * Seal the manifest for a secret of the given size with every optional header field set,
+ * the largest envelope enstash can produce for it, and check it against the upload limit
+ */
+function checkWorstCaseManifest(secretLength: number): void {
+  const secret = randomBytes(secretLength);
+  const parts: ManifestPart[] = splitIntoChunks(secret, CHUNK_SIZE).map((chunk) =>
+    ({ id: randomUUID(), key: encodeKey(randomBytes(KEY_LENGTH)), size: chunk.length, sha256: digest(chunk) }));
+  const manifestId = randomUUID();
+  const { params, recipientKey } = createRecipientKey(generateX25519KeyPair().publicKey);
+  const header = createPayloadHeader(
+    { createdAt: new Date().toISOString(), ttl: MAX_TTL_SECONDS, maxReads: MAX_READS_LIMIT },
+    { alg: 'chacha20-poly1305', kdf: createKdfParams(), recipient: params, type: 'manifest', plaintext: 'envelope' }
+  );
+  const result = encrypt(encodeManifest({ size: secret.length, sha256: digest(secret), parts }), {
+    algorithm: 'chacha20-poly1305',
+    aad: buildAad(manifestId, header),
+    passphraseKey: randomBytes(KEY_LENGTH),
+    recipientKey
+  });
+  checkPayloadSize(manifestId, createPayload(result, header), deriveRevokeCredential(manifestId, result.key));
+}
+
+describe('chunking', () => {
+  it('splits into views of at most the chunk size', () => {
+    const data = randomBytes(CHUNK_SIZE * 2 + 1);
+    const chunks = splitIntoChunks(data, CHUNK_SIZE);
+    assert.deepEqual(chunks.map((c) => c.length), [CHUNK_SIZE, CHUNK_SIZE, 1]);
+    assert.ok(Buffer.concat(chunks).equals(data));
+  });
+
+  it('round-trips a manifest', () => {
+    const parts: ManifestPart[] = [
+      { id: randomUUID(), key: 'k1', size: 10, sha256: 'a' },
+      { id: randomUUID(), key: 'k2', size: 5, sha256: 'b' }
+    ];
+    const manifest = { size: 15, sha256: 'c', parts };
+    assert.deepEqual(parseManifest(encodeManifest(manifest)), manifest);
+  });
+
+  it('rejects manifests whose part sizes do not add up', () => {
+    const bytes = encodeManifest({ size: 16, sha256: 'c', parts: [{ id: randomUUID(), key: 'k', size: 15, sha256: 'a' }] });
+    assert.throws(() => parseManifest(bytes), /do not add up/);
+  });
+
+  it('rejects manifests larger than the chunked limit', () => {
+    const size = MAX_CHUNKED_SECRET_LENGTH + 1;
+    const bytes = encodeManifest({ size, sha256: 'c', parts: [{ id: randomUUID(), key: 'k', size, sha256: 'a' }] });
+    assert.throws(() => parseManifest(bytes), /out of range/);
+  });
+
+  it('fits the manifest of a secret at the chunked limit in one stash', () => {
+    assert.doesNotThrow(() => checkWorstCaseManifest(MAX_CHUNKED_SECRET_LENGTH));
+  });
+
+  it('refuses a manifest too large for one stash before anything is uploaded', () => {
+    assert.throws(() => checkWorstCaseManifest(MAX_CHUNKED_SECRET_LENGTH * 2), /limit is/);
+  });
+});
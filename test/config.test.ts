@@ -0,0 +1,118 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadConfig, parseDotEnv } from '../src/utils/config';
+import { DEFAULT_API_BASE_URL } from '../src/utils/constants';
+
+describe('loadConfig: STASHED_API from .env', () => {
+  const cwd = process.cwd();
+  const env = { ...process.env };
+  let dir: string;
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'stasher-config-'));
+    process.chdir(dir);
+    process.env.XDG_CONFIG_HOME = dir; // No config file there
+    delete process.env.STASHED_API;
+    delete process.env.STASHER_PROFILE;
+  });
+
+  after(() => {
+    process.chdir(cwd);
+    process.env = env;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    rmSync(join(dir, '.env'), { force: true });
+  });
+
+  it('uses the default without a .env', () => {
+    const config = loadConfig();
+    assert.equal(config.apiBaseUrl, DEFAULT_API_BASE_URL);
+    assert.equal(config.sources.apiBaseUrl, 'default');
+  });
+
+  it('reads STASHED_API next to a line the dotenv parser rejects', () => {
+    writeFileSync(join(dir, '.env'), 'my.setting=1\nSTASHED_API=http://127.0.0.1:9999\n');
+    const config = loadConfig();
+    assert.equal(config.apiBaseUrl, 'http://127.0.0.1:9999');
+    assert.equal(config.sources.apiBaseUrl, 'dotenv');
+  });
+
+  it('reads STASHED_API after an unterminated quote', () => {
+    writeFileSync(join(dir, '.env'), 'BROKEN="never closed\nSTASHED_API="http://staging.example:8787"\n');
+    assert.equal(loadConfig().apiBaseUrl, 'http://staging.example:8787');
+  });
+
+  it('lets the environment win over .env', () => {
+    writeFileSync(join(dir, '.env'), 'STASHED_API=http://127.0.0.1:9999\n');
+    process.env.STASHED_API = 'http://127.0.0.1:1234';
+    try {
+      assert.equal(loadConfig().apiBaseUrl, 'http://127.0.0.1:1234');
+    } finally {
+      delete process.env.STASHED_API;
+    }
+  });
+});
+
+describe('parseDotEnv', () => {
+  const values = (content: string) => Object.fromEntries(parseDotEnv(content).map((e) => [e.name, e.value]));
+
+  it('reads bare values, trimming them and dropping inline comments', () => {
+    assert.deepEqual(values('A=1\nB = two words  \nC=x # note\nD=# only a comment\nE=\n'), {
+      A: '1', B: 'two words', C: 'x', D: '', E: ''
+    });
+  });
+
+  it('skips comments and blank lines, and reports the lines each entry spans', () => {
+    const entries = parseDotEnv('# comment\n\n  A=1\nB="x\ny"\n');
+    assert.deepEqual(entries.map((e) => [e.name, e.firstLine, e.lastLine]), [['A', 2, 2], ['B', 3, 4]]);
+  });
+
+  it('takes single-quoted values literally', () => {
+    assert.deepEqual(values("A='a \\n $HOME # not a comment'"), { A: 'a \\n $HOME # not a comment' });
+  });
+
+  it('unescapes double-quoted values', () => {
+    assert.deepEqual(values('A="tab\\tnl\\ncr\\rquote\\"slash\\\\"'), { A: 'tab\tnl\ncr\rquote"slash\\' });
+  });
+
+  it('reads quoted values that span several lines', () => {
+    assert.deepEqual(values('KEY="-----BEGIN-----\nabc\n-----END-----"\nNEXT=1'), {
+      KEY: '-----BEGIN-----\nabc\n-----END-----',
+      NEXT: '1'
+    });
+    assert.deepEqual(values("A='one\ntwo' # trailing comment"), { A: 'one\ntwo' });
+  });
+
+  it('accepts an export prefix and remembers it', () => {
+    const [entry] = parseDotEnv('export  TOKEN=abc');
+    assert.equal(entry.name, 'TOKEN');
+    assert.equal(entry.value, 'abc');
+    assert.equal(entry.exported, true);
+  });
+
+  it('handles CRLF line endings', () => {
+    assert.deepEqual(values('A=1\r\nB="x\r\ny"\r\nC=3\r\n'), { A: '1', B: 'x\ny', C: '3' });
+  });
+
+  it('lets a later assignment win', () => {
+    assert.deepEqual(values('A=1\nA=2'), { A: '2' });
+  });
+
+  it('rejects malformed lines with their line number', () => {
+    assert.throws(() => parseDotEnv('A=1\nmy.setting=1'), /Line 2: expected NAME=value/);
+    assert.throws(() => parseDotEnv('JUST_A_NAME'), /Line 1/);
+    assert.throws(() => parseDotEnv('1ABC=x'), /Line 1/);
+    assert.throws(() => parseDotEnv('A=1\nB="never closed\nC=3'), /Line 2: unterminated " quote/);
+    assert.throws(() => parseDotEnv("A='x' trailing"), /Line 1: unexpected text after the closing quote/);
+  });
+
+  it('skips what it cannot parse when lenient', () => {
+    const entries = parseDotEnv('my.setting=1\nB="never closed\nC=\'x\' junk\nD=4', { lenient: true });
+    assert.deepEqual(entries.map((e) => [e.name, e.value]), [['D', '4']]);
+  });
+});
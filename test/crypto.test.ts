@@ -0,0 +1,125 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCipheriv, randomBytes, randomUUID } from 'crypto';
+import {
+  buildAad,
+  createPayload,
+  createPayloadHeader,
+  decodeStashToken,
+  decrypt,
+  decryptToBytes,
+  encodePayload,
+  encrypt,
+  formatStashToken,
+  parsePayload,
+  CipherAlgorithm,
+  PayloadStructure
+} from '../src/utils/crypto';
+import { IV_LENGTH, KEY_LENGTH } from '../src/utils/constants';
+
+/**
+ * Seal a secret the way enstash does: versioned header, bound to the stash id
+ */
+function seal(id: string, secret: string, alg: CipherAlgorithm = 'aes-256-gcm'): { payload: PayloadStructure; key: Buffer } {
+  const header = createPayloadHeader({ createdAt: new Date().toISOString(), ttl: 600, maxReads: 1 }, { alg });
+  const result = encrypt(Buffer.from(secret), { algorithm: alg, aad: buildAad(id, header) });
+  return { payload: parsePayload(encodePayload(createPayload(result, header))), key: result.key };
+}
+
+describe('AAD binding', () => {
+  const id = randomUUID();
+
+  for (const alg of ['aes-256-gcm', 'chacha20-poly1305'] as const) {
+    it(`decrypts a ${alg} payload under the id it was sealed for`, () => {
+      const { payload, key } = seal(id, 'secret', alg);
+      assert.equal(decrypt(payload, key, { stashId: id }), 'secret');
+    });
+
+    it(`refuses a ${alg} payload moved to another id`, () => {
+      const { payload, key } = seal(id, 'secret', alg);
+      assert.throws(() => decryptToBytes(payload, key, { stashId: randomUUID() }), /authenticate/);
+    });
+  }
+
+  it('refuses a payload whose header was changed', () => {
+    const { payload, key } = seal(id, 'secret');
+    const tampered = { ...payload, meta: { ...payload.meta!, maxReads: 100 } };
+    assert.throws(() => decryptToBytes(tampered, key, { stashId: id }), /authenticate/);
+  });
+
+  it('requires the stash id for a versioned payload', () => {
+    const { payload, key } = seal(id, 'secret');
+    assert.throws(() => decryptToBytes(payload, key), /Stash id is required/);
+  });
+});
+
+describe('payload versions', () => {
+  /**
+   * An unversioned payload as the first release wrote it: AES-256-GCM, no AAD, no header
+   */
+  function legacyPayload(secret: string, key: Buffer): string {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    return JSON.stringify({
+      iv: iv.toString('base64url'),
+      tag: cipher.getAuthTag().toString('base64url'),
+      ciphertext: ciphertext.toString('base64url')
+    });
+  }
+
+  it('still decrypts legacy v1 payloads, with or without a stash id', () => {
+    const key = randomBytes(KEY_LENGTH);
+    const payload = parsePayload(legacyPayload('old secret', key));
+    assert.equal(payload.v, undefined);
+    assert.equal(decrypt(payload, key), 'old secret');
+    assert.equal(decrypt(payload, key, { stashId: randomUUID() }), 'old secret');
+  });
+
+  it('rejects unversioned payloads that claim v2 features', () => {
+    const legacy = JSON.parse(legacyPayload('x', randomBytes(KEY_LENGTH)));
+    assert.throws(() => parsePayload(JSON.stringify({ ...legacy, alg: 'chacha20-poly1305' })), /Unversioned payload/);
+    assert.throws(() => parsePayload(JSON.stringify({ ...legacy, plaintext: 'envelope' })), /Unversioned payload/);
+  });
+
+  it('rejects unknown versions and malformed headers', () => {
+    const { payload } = seal(randomUUID(), 'x');
+    const encoded = JSON.parse(encodePayload(payload));
+    assert.throws(() => parsePayload(JSON.stringify({ ...encoded, v: 3 })), /Unsupported payload version: 3/);
+    assert.throws(() => parsePayload(JSON.stringify({ ...encoded, alg: 'des' })), /Unsupported cipher algorithm/);
+    assert.throws(() => parsePayload(JSON.stringify({ ...encoded, meta: {} })), /createdAt/);
+    assert.throws(() => parsePayload(JSON.stringify({ ...encoded, tag: 'AAAA' })), /Invalid decoded length/);
+  });
+});
+
+describe('stash tokens', () => {
+  const id = randomUUID();
+  const key = randomBytes(KEY_LENGTH);
+  const token = formatStashToken(id, key);
+
+  it('round-trip as uuid:key.check', () => {
+    assert.match(token, new RegExp(`^${id}:[A-Za-z0-9_-]{43}\\.[A-Za-z0-9_-]+$`));
+    const decoded = decodeStashToken(token);
+    assert.equal(decoded.id, id);
+    assert.ok(decoded.key.equals(key));
+  });
+
+  it('accept tokens from before check values, in base64url or standard base64', () => {
+    assert.ok(decodeStashToken(`${id}:${key.toString('base64url')}`).key.equals(key));
+    assert.ok(decodeStashToken(`${id}:${key.toString('base64')}`).key.equals(key));
+  });
+
+  it('catch a mistyped id, key or check value before any network call', () => {
+    const other = randomUUID();
+    assert.throws(() => decodeStashToken(other + token.slice(id.length)), /Token check failed/);
+    const [encodedKey, check] = token.slice(id.length + 1).split('.');
+    const flipped = (s: string) => (s[0] === 'A' ? 'B' : 'A') + s.slice(1);
+    assert.throws(() => decodeStashToken(`${id}:${flipped(encodedKey)}.${check}`), /Token check failed/);
+    assert.throws(() => decodeStashToken(`${id}:${encodedKey}.${flipped(check)}`), /Token check failed/);
+  });
+
+  it('reject truncated keys', () => {
+    assert.throws(() => decodeStashToken(`${id}:${key.subarray(0, 16).toString('base64url')}`), /Invalid key length/);
+    assert.throws(() => decodeStashToken(id), /missing colon/);
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import { load } from 'js-yaml';
+import { parseDotEnv } from '../src/utils/config';
+import {
+  decodeEnvBundle,
+  encodeEnvBundle,
+  mergeDotEnv,
+  renderEnvBundle,
+  selectFromDotEnv,
+  validateK8sKey,
+  validateK8sName,
+  validateK8sNamespace
+} from '../src/utils/env-bundle';
+
+// Values that need every kind of quoting a renderer can get wrong
+const TRICKY = new Map([
+  ['PLAIN', 'postgres://u:p@h:5432/db?sslmode=require'],
+  ['SPACES', 'a b  c'],
+  ['SINGLE', "it's"],
+  ['DOUBLE', 'say "hi"'],
+  ['BOTH', `it's "both"`],
+  ['SHELL', '$HOME `id` $(id) \\n'],
+  ['HASH', 'x # y'],
+  ['MULTI', '-----BEGIN-----\nabc\n-----END-----'],
+  ['TABS', 'a\tb\r\nc'],
+  ['EMPTY', ''],
+  ['UNICODE', 'pässwörd ✓']
+]);
+
+const parsed = (content: string) => new Map(parseDotEnv(content).map((e) => [e.name, e.value]));
+
+describe('env bundles', () => {
+  it('round-trips through encode and decode', () => {
+    assert.deepEqual(decodeEnvBundle(encodeEnvBundle(TRICKY)), TRICKY);
+  });
+
+  it('rejects bundles that are not a map of names to strings', () => {
+    assert.throws(() => decodeEnvBundle(Buffer.from('[1]')), /must be an object/);
+    assert.throws(() => decodeEnvBundle(Buffer.from('{"A":1}')), /invalid variable/);
+    assert.throws(() => decodeEnvBundle(Buffer.from('{"not valid":"x"}')), /invalid variable/);
+    assert.throws(() => decodeEnvBundle(Buffer.from('{')), /not valid JSON/);
+  });
+
+  it('selects named keys in the order given, or every key', () => {
+    const content = 'A=1\nB=2\nC=3\n';
+    assert.deepEqual([...selectFromDotEnv(content, ['C', 'A'])], [['C', '3'], ['A', '1']]);
+    assert.deepEqual([...selectFromDotEnv(content).keys()], ['A', 'B', 'C']);
+    assert.throws(() => selectFromDotEnv(content, ['A', 'NOPE']), /not in the file: NOPE/);
+    assert.throws(() => selectFromDotEnv('# nothing\n'), /no variables/);
+  });
+});
+
+describe('renderEnvBundle', () => {
+  it('renders dotenv that parses back to the same values', () => {
+    assert.deepEqual(parsed(renderEnvBundle(TRICKY, 'dotenv')), TRICKY);
+  });
+
+  it('renders shell exports that a POSIX shell reads back unchanged', () => {
+    const script = renderEnvBundle(TRICKY, 'shell-export') + '"$NODE" -e "process.stdout.write(JSON.stringify(process.env))"';
+    const env = JSON.parse(execFileSync('sh', ['-c', script], { env: { NODE: process.execPath } }).toString('utf8'));
+    for (const [name, value] of TRICKY) {
+      assert.equal(env[name], value, name);
+    }
+  });
+
+  it('renders JSON and YAML objects', () => {
+    assert.deepEqual(JSON.parse(renderEnvBundle(TRICKY, 'json')), Object.fromEntries(TRICKY));
+    assert.deepEqual(load(renderEnvBundle(TRICKY, 'yaml')), Object.fromEntries(TRICKY));
+  });
+
+  it('renders docker-env lines literally and refuses multi-line values', () => {
+    assert.equal(renderEnvBundle(new Map([['A', 'x "y" $z']]), 'docker-env'), 'A=x "y" $z\n');
+    assert.throws(() => renderEnvBundle(TRICKY, 'docker-env'), /MULTI spans several lines/);
+  });
+
+  it('renders a Secret manifest with base64 data, binary values included', () => {
+    const binary = Buffer.from([0, 255, 10, 13]);
+    const manifest: any = load(renderEnvBundle(
+      new Map<string, string | Buffer>([['DB_URL', 'postgres://h/db'], ['tls.key', binary]]),
+      'k8s-secret',
+      { name: 'app', namespace: 'prod' }
+    ));
+    assert.deepEqual(manifest, {
+      apiVersion: 'v1',
+      kind: 'Secret',
+      metadata: { name: 'app', namespace: 'prod' },
+      type: 'Opaque',
+      data: { DB_URL: Buffer.from('postgres://h/db').toString('base64'), 'tls.key': binary.toString('base64') }
+    });
+  });
+
+  it('leaves the namespace out when none is given', () => {
+    const manifest: any = load(renderEnvBundle(new Map([['A', '1']]), 'k8s-secret', { name: 'app' }));
+    assert.deepEqual(manifest.metadata, { name: 'app' });
+  });
+
+  it('refuses binary values outside a Secret', () => {
+    assert.throws(() => renderEnvBundle(new Map([['A', Buffer.from([0xff])]]), 'dotenv'), /A is binary/);
+  });
+
+  it('validates Kubernetes names, namespaces and keys', () => {
+    assert.ok(validateK8sName('my-app.v2'));
+    assert.ok(!validateK8sName('My_App'));
+    assert.ok(!validateK8sName('-app'));
+    assert.ok(validateK8sNamespace('prod-1'));
+    assert.ok(!validateK8sNamespace('prod.eu'));
+    assert.ok(!validateK8sNamespace('a'.repeat(64)));
+    assert.ok(validateK8sKey('tls.crt'));
+    assert.ok(validateK8sKey('DB_URL'));
+    assert.ok(!validateK8sKey('..'));
+    assert.ok(!validateK8sKey('a/b'));
+  });
+});
+
+describe('mergeDotEnv', () => {
+  const original = [
+    '# Database',
+    'export DB_URL=postgres://old',
+    '',
+    'API_KEY="multi',
+    'line"  # inline comment',
+    'UNTOUCHED=keep me # and my comment',
+    ''
+  ].join('\n');
+
+  it('rewrites assignments in place and appends new names', () => {
+    const vars = new Map([['DB_URL', 'postgres://new'], ['API_KEY', 'k e y'], ['NEW_ONE', "it's"]]);
+    const merged = mergeDotEnv(original, vars);
+    assert.deepEqual(merged.updated, ['DB_URL', 'API_KEY']);
+    assert.deepEqual(merged.added, ['NEW_ONE']);
+    assert.equal(merged.content, [
+      '# Database',
+      'export DB_URL=postgres://new',
+      '',
+      "API_KEY='k e y'",
+      'UNTOUCHED=keep me # and my comment',
+      'NEW_ONE="it\'s"',
+      ''
+    ].join('\n'));
+  });
+
+  it('round-trips: the merged file parses to the old values overlaid with the bundle', () => {
+    const merged = mergeDotEnv(original, TRICKY);
+    const expected = new Map([...parsed(original), ...TRICKY]);
+    assert.deepEqual(parsed(merged.content), expected);
+    // Merging the same bundle again changes nothing
+    assert.equal(mergeDotEnv(merged.content, TRICKY).content, merged.content);
+  });
+
+  it('keeps CRLF line endings', () => {
+    const merged = mergeDotEnv('A=1\r\nB=2\r\n', new Map([['B', '3'], ['C', '4']]));
+    assert.equal(merged.content, 'A=1\r\nB=3\r\nC=4\r\n');
+  });
+
+  it('creates content for an empty file', () => {
+    assert.equal(mergeDotEnv('', new Map([['A', '1']])).content, 'A=1\n');
+  });
+
+  it('refuses to merge into a file it cannot parse', () => {
+    assert.throws(() => mergeDotEnv('my.setting=1\n', new Map([['A', '1']])), /Line 1/);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes } from 'crypto';
+import {
+  decodeEnvelope,
+  encodeEnvelope,
+  guessContentType,
+  validateContentType,
+  validateFilename
+} from '../src/utils/envelope';
+
+const envelope = (header: string, data = 'secret') => Buffer.from(`${header}\n${data}`);
+
+describe('envelope', () => {
+  it('round-trips metadata and exact bytes, newlines and binary included', () => {
+    const data = Buffer.concat([Buffer.from('line\n\r\n'), randomBytes(64), Buffer.from([0x0a])]);
+    const meta = { filename: 'id_ed25519', contentType: 'application/octet-stream', trailingNewline: false };
+    const opened = decodeEnvelope(encodeEnvelope(meta, data));
+    assert.deepEqual(opened.meta, meta);
+    assert.ok(opened.data.equals(data));
+  });
+
+  it('refuses a filename with a newline without misreading the header', () => {
+    // JSON escapes the newline, so it cannot end the header early; the name is still refused
+    assert.throws(() => decodeEnvelope(encodeEnvelope({ filename: 'a\nb' }, Buffer.from('x'))), /invalid filename/);
+  });
+
+  it('accepts empty metadata and an empty secret', () => {
+    const opened = decodeEnvelope(encodeEnvelope({}, Buffer.alloc(0)));
+    assert.deepEqual(opened.meta, {});
+    assert.equal(opened.data.length, 0);
+  });
+
+  it('drops unknown fields', () => {
+    assert.deepEqual(decodeEnvelope(envelope('{"trailingNewline":true,"future":1}')).meta, { trailingNewline: true });
+  });
+
+  it('rejects malformed metadata', () => {
+    assert.throws(() => decodeEnvelope(Buffer.from('{}')), /missing its metadata line/);
+    assert.throws(() => decodeEnvelope(envelope('{')), /not valid JSON/);
+    assert.throws(() => decodeEnvelope(envelope('[]')), /must be an object/);
+    assert.throws(() => decodeEnvelope(envelope('null')), /must be an object/);
+    assert.throws(() => decodeEnvelope(envelope('{"filename":"../etc/passwd"}')), /invalid filename/);
+    assert.throws(() => decodeEnvelope(envelope('{"filename":7}')), /invalid filename/);
+    assert.throws(() => decodeEnvelope(envelope('{"contentType":"text"}')), /invalid content type/);
+    assert.throws(() => decodeEnvelope(envelope('{"trailingNewline":"yes"}')), /invalid trailingNewline/);
+  });
+
+  it('accepts plain base names only', () => {
+    assert.ok(validateFilename('.env.production'));
+    assert.ok(validateFilename('key (1).pem'));
+    for (const name of ['', '.', '..', 'a/b', 'a\\b', '/etc/passwd', 'bell\x07', 'del\x7f', 'x'.repeat(256)]) {
+      assert.ok(!validateFilename(name), JSON.stringify(name));
+    }
+  });
+
+  it('accepts type/subtype content types', () => {
+    assert.ok(validateContentType('text/plain'));
+    assert.ok(validateContentType('application/vnd.api+json'));
+    assert.ok(!validateContentType('text'));
+    assert.ok(!validateContentType('text/plain; charset=utf-8'));
+    assert.ok(!validateContentType('text/plain\n'));
+  });
+
+  it('guesses text for UTF-8 and octet-stream otherwise', () => {
+    assert.equal(guessContentType(Buffer.from('pässwörd')), 'text/plain');
+    assert.equal(guessContentType(Buffer.from([0xff, 0xfe, 0x00])), 'application/octet-stream');
+  });
+});
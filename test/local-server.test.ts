@@ -0,0 +1,113 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { Server } from 'http';
+import { createLocalServer, sweepStore, MemoryStore } from '../src/server/local-server';
+import { hashRevokeCredential } from '../src/utils/crypto';
+import { REVOKE_HEADER, TOMBSTONE_RETENTION_MS } from '../src/utils/constants';
+
+const ENVELOPE = { v: 2, iv: 'aXY', tag: 'dGFn', ciphertext: 'Y2lwaGVy' };
+
+describe('local server', () => {
+  const store = new MemoryStore();
+  let server: Server;
+  let base: string;
+
+  before(async () => {
+    server = createLocalServer(store);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  async function call(method: string, path: string, body?: unknown, headers: Record<string, string> = {}) {
+    const res = await fetch(base + path, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    return { status: res.status, body: await res.json() as any };
+  }
+
+  const enstash = (fields: Record<string, unknown> = {}) => call('POST', '/enstash', { id: randomUUID(), ...ENVELOPE, ...fields });
+
+  /**
+   * Move a stash's clock: expiresAt becomes now + offset
+   */
+  async function expireIn(id: string, offsetMs: number): Promise<void> {
+    const record = (await store.get(id))!;
+    await store.put({ ...record, expiresAt: Date.now() + offsetMs });
+  }
+
+  it('stores the envelope under the client-chosen id, without control fields', async () => {
+    const id = randomUUID();
+    const created = await call('POST', '/enstash', { id, ...ENVELOPE, ttl: 60, maxReads: 2 });
+    assert.equal(created.status, 201);
+    assert.equal(created.body.id, id);
+    assert.equal(created.body.maxReads, 2);
+    assert.deepEqual((await store.get(id))!.envelope, ENVELOPE);
+    assert.equal((await call('POST', '/enstash', { id, ...ENVELOPE })).status, 409);
+  });
+
+  it('burns a stash after its last read and keeps a tombstone', async () => {
+    const { body: { id } } = await enstash({ maxReads: 2 });
+    const first = await call('GET', `/destash/${id}`);
+    assert.equal(first.status, 200);
+    assert.deepEqual(first.body, { ...ENVELOPE, remainingReads: 1 });
+    assert.equal((await call('GET', `/status/${id}`)).body.status, 'active');
+    assert.equal((await call('GET', `/destash/${id}`)).body.remainingReads, 0);
+
+    assert.deepEqual(await call('GET', `/destash/${id}`), { status: 410, body: { error: 'Consumed' } });
+    const status = await call('GET', `/status/${id}`);
+    assert.equal(status.body.status, 'consumed');
+    assert.equal(status.body.remainingReads, 0);
+    // The ciphertext is gone, only the state is kept
+    assert.deepEqual((await store.get(id))!.envelope, {});
+  });
+
+  it('answers 410 after expiry, then 404 once the tombstone is purged', async () => {
+    const { body: { id } } = await enstash();
+    await expireIn(id, -1000);
+    assert.deepEqual(await call('GET', `/destash/${id}`), { status: 410, body: { error: 'Expired' } });
+    assert.equal((await call('GET', `/status/${id}`)).body.status, 'expired');
+
+    await expireIn(id, -TOMBSTONE_RETENTION_MS - 1000);
+    assert.equal((await call('GET', `/status/${id}`)).status, 404);
+    assert.equal(await store.get(id), undefined);
+    assert.equal((await call('GET', `/destash/${id}`)).status, 404);
+  });
+
+  it('sweeps ciphertext from expired stashes and purges old tombstones', async () => {
+    const { body: { id: expired } } = await enstash();
+    const { body: { id: old } } = await enstash();
+    await expireIn(expired, -1000);
+    await expireIn(old, -TOMBSTONE_RETENTION_MS - 1000);
+    assert.equal(await sweepStore(store), 1);
+    assert.deepEqual((await store.get(expired))!.envelope, {});
+    assert.equal(await store.get(old), undefined);
+  });
+
+  it('lets only the holder of the revoke credential delete a stash', async () => {
+    const credential = 'c'.repeat(43);
+    const { body: { id } } = await enstash({ revokeHash: hashRevokeCredential(credential) });
+    assert.equal((await call('DELETE', `/unstash/${id}`)).status, 401);
+    assert.equal((await call('DELETE', `/unstash/${id}`, undefined, { [REVOKE_HEADER]: 'd'.repeat(43) })).status, 403);
+    assert.equal((await call('DELETE', `/unstash/${id}`, undefined, { [REVOKE_HEADER]: credential })).status, 200);
+
+    assert.equal((await call('GET', `/status/${id}`)).body.status, 'revoked');
+    assert.equal((await call('GET', `/destash/${id}`)).status, 404);
+    assert.equal((await call('DELETE', `/unstash/${id}`, undefined, { [REVOKE_HEADER]: credential })).status, 404);
+  });
+
+  it('rejects bad requests', async () => {
+    assert.equal((await call('POST', '/enstash', { id: 'not-a-uuid', ...ENVELOPE })).status, 400);
+    assert.equal((await call('POST', '/enstash', { id: randomUUID(), iv: 'x' })).status, 400);
+    assert.equal((await enstash({ ttl: 1 })).status, 400);
+    assert.equal((await enstash({ maxReads: 0 })).status, 400);
+    assert.equal((await enstash({ revokeHash: 'short' })).status, 400);
+    assert.equal((await call('GET', `/destash/${randomUUID()}`)).status, 404);
+    assert.equal((await call('GET', '/destash/not-a-uuid')).status, 404);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes, randomUUID } from 'crypto';
+import { combineShares, splitSecret } from '../src/utils/shamir';
+import { combineShareTokens, formatShareTokens } from '../src/utils/crypto';
+import { KEY_LENGTH } from '../src/utils/constants';
+
+describe('shamir', () => {
+  it('recovers the secret from every threshold-sized subset', () => {
+    const secret = randomBytes(KEY_LENGTH);
+    const shares = splitSecret(secret, 5, 3);
+    assert.deepEqual(shares.map((s) => s.x), [1, 2, 3, 4, 5]);
+    for (let a = 0; a < 5; a++) {
+      for (let b = a + 1; b < 5; b++) {
+        for (let c = b + 1; c < 5; c++) {
+          assert.ok(combineShares([shares[c], shares[a], shares[b]]).equals(secret), `${a}${b}${c}`);
+        }
+      }
+    }
+    // More shares than needed also work
+    assert.ok(combineShares(shares).equals(secret));
+  });
+
+  it('does not recover the secret from fewer shares than the threshold', () => {
+    const secret = randomBytes(KEY_LENGTH);
+    const shares = splitSecret(secret, 3, 3);
+    assert.ok(!combineShares(shares.slice(0, 2)).equals(secret));
+  });
+
+  it('handles 255 shares and an empty secret', () => {
+    const secret = randomBytes(16);
+    const shares = splitSecret(secret, 255, 2);
+    assert.ok(combineShares([shares[254], shares[0]]).equals(secret));
+    assert.equal(combineShares(splitSecret(Buffer.alloc(0), 3, 2).slice(0, 2)).length, 0);
+  });
+
+  it('rejects impossible splits', () => {
+    for (const [count, threshold] of [[3, 1], [2, 3], [256, 2], [3, 2.5]]) {
+      assert.throws(() => splitSecret(randomBytes(4), count, threshold), /2 <= threshold <= count <= 255/);
+    }
+  });
+
+  it('rejects duplicate indexes and mismatched lengths', () => {
+    const shares = splitSecret(randomBytes(8), 3, 2);
+    assert.throws(() => combineShares([]), /No shares/);
+    assert.throws(() => combineShares([shares[0], shares[0]]), /distinct indexes/);
+    assert.throws(() => combineShares([shares[0], { x: 2, y: Buffer.alloc(7) }]), /equal lengths/);
+    assert.throws(() => combineShares([shares[0], { x: 0, y: Buffer.alloc(8) }]), /distinct indexes/);
+  });
+});
+
+describe('share tokens', () => {
+  const id = randomUUID();
+  const key = randomBytes(KEY_LENGTH);
+
+  it('reconstruct the token key from any threshold of them', () => {
+    const tokens = formatShareTokens(id, key, 3, 2);
+    assert.ok(tokens.every((t) => t.startsWith(`share:${id}:2:`)));
+    const parts = combineShareTokens([tokens[2], tokens[0]]);
+    assert.equal(parts.id, id);
+    assert.ok(parts.key.equals(key));
+  });
+
+  it('refuse too few, duplicated or mixed shares', () => {
+    const tokens = formatShareTokens(id, key, 3, 2);
+    assert.throws(() => combineShareTokens([tokens[0]]), /Need 2 shares, got 1/);
+    assert.throws(() => combineShareTokens([tokens[0], tokens[0]]), /distinct/);
+    assert.throws(() => combineShareTokens([tokens[0], formatShareTokens(id, key, 3, 3)[1]]), /different splits/);
+    assert.throws(() => combineShareTokens([tokens[0], formatShareTokens(randomUUID(), key, 3, 2)[1]]), /different stashes/);
+    assert.throws(() => combineShareTokens(['not a share']), /Invalid share token format/);
+  });
+
+  it('catch a damaged share or one from another split with the key check', () => {
+    const tokens = formatShareTokens(id, key, 2, 2);
+    const at = tokens[1].lastIndexOf(':') + 1;
+    const damaged = tokens[1].slice(0, at) + (tokens[1][at] === 'A' ? 'B' : 'A') + tokens[1].slice(at + 1);
+    assert.throws(() => combineShareTokens([tokens[0], damaged]), /do not reconstruct the key/);
+    assert.throws(() => combineShareTokens([tokens[0], formatShareTokens(id, key, 2, 2)[1]]), /do not reconstruct the key/);
+  });
+});
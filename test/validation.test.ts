@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes, randomUUID } from 'crypto';
+import { formatStashLink, formatStashToken } from '../src/utils/crypto';
+import { CliError } from '../src/utils/output';
+import { extractUUID, normalizeStashInput, validateAndParseStashFormat } from '../src/utils/validation';
+import { KEY_LENGTH } from '../src/utils/constants';
+
+const isInvalidInput = (error: unknown) =>
+  error instanceof CliError && error.code === 'invalid_input' && /percent-encoding/.test(error.message);
+
+describe('share links', () => {
+  const id = randomUUID();
+  const key = randomBytes(KEY_LENGTH);
+  const token = formatStashToken(id, key);
+
+  it('normalize to the token they were made from', () => {
+    assert.equal(normalizeStashInput(`  ${formatStashLink('https://api.example/', id, key)}  `), token);
+    assert.equal(normalizeStashInput(`http://127.0.0.1:8787/prefix/s/${id}/#${token.slice(id.length + 1)}`), token);
+  });
+
+  it('decode a percent-encoded fragment', () => {
+    assert.equal(normalizeStashInput(`https://h/s/${id}#abc%2Ddef`), `${id}:abc-def`);
+  });
+
+  it('yield the bare uuid without a fragment', () => {
+    assert.equal(normalizeStashInput(`https://h/s/${id}`), id);
+    assert.equal(extractUUID(`https://h/s/${id}`), id);
+  });
+
+  it('leave anything else alone', () => {
+    assert.equal(normalizeStashInput(` ${token} `), token);
+    assert.equal(normalizeStashInput(`https://h/other/${id}#k`), `https://h/other/${id}#k`);
+    assert.equal(normalizeStashInput('https://'), 'https://');
+  });
+
+  it('refuse a malformed fragment as invalid input instead of crashing', () => {
+    const link = `http://h/s/${id}#%E0%A4%A`;
+    assert.throws(() => normalizeStashInput(link), isInvalidInput);
+    assert.throws(() => validateAndParseStashFormat(link), isInvalidInput);
+    assert.throws(() => extractUUID(link), isInvalidInput);
+  });
+});
+
+describe('validateAndParseStashFormat', () => {
+  const id = randomUUID();
+  const key = randomBytes(KEY_LENGTH);
+  const token = formatStashToken(id, key);
+
+  it('parses tokens with and without a check value, and links', () => {
+    const [, rest] = token.split(':');
+    const [encodedKey, check] = rest.split('.');
+    assert.deepEqual(validateAndParseStashFormat(token), { success: true, data: { id, key: encodedKey, check } });
+    assert.deepEqual(validateAndParseStashFormat(`${id}:${encodedKey}`), { success: true, data: { id, key: encodedKey, check: undefined } });
+    assert.deepEqual(validateAndParseStashFormat(`https://h/s/${id}#${rest}`), validateAndParseStashFormat(token));
+    // Standard base64 keys from older versions are still accepted
+    assert.ok(validateAndParseStashFormat(`${id}:${key.toString('base64')}`).success);
+  });
+
+  it('explains what is wrong', () => {
+    const failure = (input: string) => {
+      const result = validateAndParseStashFormat(input);
+      return result.success ? null : result.error;
+    };
+    assert.match(failure('')!, /empty/);
+    assert.match(failure(id)!, /Missing colon/);
+    assert.match(failure('not-a-uuid:abc')!, /Invalid uuid/);
+    assert.match(failure(`${id}:`)!, /Missing key/);
+    assert.match(failure(`${id}:${randomBytes(16).toString('base64url')}`)!, /Invalid key length/);
+    assert.match(failure(`${token.split('.')[0]}.short`)!, /check value/);
+  });
+
+  it('extracts the uuid from tokens, links and bare uuids only', () => {
+    assert.equal(extractUUID(token), id);
+    assert.equal(extractUUID(id), id);
+    assert.equal(extractUUID('nope'), null);
+  });
+});